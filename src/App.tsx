@@ -1,20 +1,36 @@
 import React from 'react';
+import AlarmManager from './alarm.manager';
+import HistoryManager from './history.manager';
 import Slide from './Slide';
+import Dialog from './components/Dialog/Dialog';
 import Landing from './components/Landing/Landing';
 import Snackbar from './components/Snackbar/Snackbar';
+import NotificationManager from './notification.manager';
 import SnackbarContext from './snackbar.provider';
 import PreferencesManager from './preferences.manager';
+import PresetManager from './preset.manager';
+import ServiceWorkerManager from './service-worker.manager';
+import ShortcutManager from './shortcut.manager';
 import Storage from './storage';
-import { debounce } from './helpers';
-import { TimerData } from './types';
+import TimerController from './timer.controller';
+import TimerManager from './timer.manager';
+import TitleManager from './title.manager';
+import { debounce, endedRounds } from './helpers';
+import { isNewerRecord, isTimerGroup, migrateTimer } from './schema';
+import { TimerData, TimerGroup, TimerPreset } from './types';
 
 import './App.scss';
 
 type AppState = {
     activeSlide: string | null;
+    groups: TimerGroup[];
     landingActive: boolean;
     landingData: TimerData[];
     messages: string[];
+    presets: TimerPreset[];
+    running: number[];
+    shortcutsActive: boolean;
+    slideData: TimerData | null;
 };
 
 /**
@@ -27,13 +43,32 @@ type AppState = {
  */
 export default class App extends React.Component<{}, AppState> {
     appContainer!: HTMLElement; // App container element.
+    groupStorage: Storage = new Storage('group'); // Manages the timer groups.
+    history = new HistoryManager(); // Records when timers run.
     landingData: TimerData[] = []; // Timer data for the Landing slide.
+    notifications = new NotificationManager(); // Dispatches desktop notifications.
+    presets = new PresetManager(); // Loads the timer presets.
+    serviceWorker = new ServiceWorkerManager(); // Makes the app installable and available offline.
+    shortcuts = new ShortcutManager(); // Matches keyboard shortcuts.
     slidesContainer!: HTMLElement; // Slides container element.
     slideWidth: number = 0; // Holds the slide width for further calculations.
     storage: Storage = new Storage('timer'); // Manages localStorage.
     styles!: CSSStyleDeclaration; // Holds the slides CSS styles.
+    syncTimers = debounce(() => this.getLandingData(), 100); // Reloads the timers after changes in other tabs.
+    timers = new TimerManager(); // Holds the run state of all timers and runs them.
+    titles = new TitleManager(); // Shows the most urgent running timer in the document title.
 
-    state = { activeSlide: null, landingActive: true, landingData: [], messages: [] };
+    state = {
+        activeSlide: null,
+        groups: [] as TimerGroup[],
+        landingActive: true,
+        landingData: [],
+        messages: [],
+        presets: [] as TimerPreset[],
+        running: [] as number[],
+        shortcutsActive: false,
+        slideData: null
+    };
 
     /**
      * openSlide
@@ -41,54 +76,283 @@ export default class App extends React.Component<{}, AppState> {
      * Open the given slide with the supplied data.
      *
      * @param {string} name Slide name
+     * @param {TimerData} [data] Timer data the slide works with
      * @memberof App
      * @since 1.0.0
      */
-    openSlide = (name: string) => {
+    openSlide = (name: string, data?: TimerData) => {
         // Update our state with the active slide and its data.
-        this.setState({ activeSlide: name });
+        this.setState({ activeSlide: name, slideData: data ? data : null });
 
         // Show the newly created slide.
         this.goForward();
     };
 
+    /**
+     * rehydrateTimer
+     *
+     * Bring the stored timer data up to date with the current time.
+     * Countdowns that ran out while the page was closed are marked as finished.
+     * Sequences only count as finished once their last phase ran out, repeating countdowns once their last round did.
+     *
+     * @param {TimerData} data The stored timer data
+     * @return {*} {TimerData}
+     * @memberof App
+     * @since 1.1.0
+     */
+    rehydrateTimer = (data: TimerData): TimerData => {
+        // Only running countdowns need any work.
+        if (!data.deadline || data.paused || data.stopped) {
+            return data;
+        }
+
+        // Repeating countdowns catch up on the rounds that finished in the meantime.
+        const repeating = !!data.repeat && (!data.mode || data.mode === 'countdown') && !data.targetTime;
+        const timer = repeating ? this.replayRounds(data) : data;
+
+        // Sequences keep going through their remaining phases after the current deadline.
+        const phases = timer.mode === 'sequence' && timer.phases ? timer.phases : [];
+        const end = phases
+            .slice((timer.phase ? timer.phase : 0) + 1)
+            .reduce((deadline, phase) => deadline + phase.time * 1000, timer.deadline!);
+
+        if (end > Date.now()) {
+            return timer;
+        }
+
+        // The countdown is over, so we show it as finished.
+        const finished: TimerData = { ...timer, deadline: undefined, finished: true, paused: true, remaining: 0 };
+
+        // Show the last phase of a finished sequence.
+        if (phases.length) {
+            finished.phase = phases.length - 1;
+        }
+
+        // Record the last round of a repeating countdown.
+        if (repeating) {
+            finished.rounds = [...(timer.rounds ? timer.rounds : []), end].slice(-TimerController.roundsKept);
+            finished.completedRounds = this.countRounds(timer) + 1;
+            finished.waitUntil = undefined;
+        }
+
+        // Save the finished state so we only notify the user once.
+        this.storage.set(timer.id.toString(), finished);
+
+        // Record the finish at the time it actually happened.
+        this.history.log(timer.id, 'finish', timer.title, end);
+
+        // Let the user know what happened while they were away.
+        this.showMessage(`${timer.title ? timer.title : 'Untitled'} finished while you were away`);
+
+        return finished;
+    };
+
+    /**
+     * replayRounds
+     *
+     * Move a running repeating countdown on to its current round, recording the rounds that finished on the way.
+     * Only the latest rounds are kept and recorded, the earlier ones count as one long run.
+     * The last round is left for `rehydrateTimer` to finish.
+     *
+     * @param {TimerData} data The stored timer data
+     * @return {*} {TimerData}
+     * @memberof App
+     * @since 1.1.0
+     */
+    replayRounds = (data: TimerData): TimerData => {
+        const completedRounds = this.countRounds(data);
+        const delay = data.repeat!.delay ? data.repeat!.delay * 1000 : 0;
+        const limit = data.repeat!.count ? data.repeat!.count - 1 - completedRounds : Infinity;
+        const { count, ends } = endedRounds(
+            data.deadline!,
+            data.time * 1000 + delay,
+            Math.max(0, limit),
+            TimerController.roundsKept
+        );
+
+        // Nothing happened while we were away.
+        if (!count) {
+            return data;
+        }
+
+        // Record the finished rounds and the start of the next ones at the time they actually happened.
+        for (const end of ends) {
+            this.history.log(data.id, 'finish', data.title, end);
+            this.history.log(data.id, 'start', data.title, end + delay);
+        }
+
+        const start = ends[ends.length - 1] + delay;
+        const update: TimerData = {
+            ...data,
+            completedRounds: completedRounds + count,
+            deadline: start + data.time * 1000,
+            remaining: data.time * 1000,
+            rounds: [...(data.rounds ? data.rounds : []), ...ends].slice(-TimerController.roundsKept),
+            waitUntil: start > Date.now() ? start : undefined
+        };
+
+        // Save the current round so we only record the finished ones once.
+        this.storage.set(data.id.toString(), update);
+
+        return update;
+    };
+
+    /**
+     * countRounds
+     *
+     * Get the number of completed repeat rounds, timers saved before it was stored count their kept rounds.
+     *
+     * @param {TimerData} data The stored timer data
+     * @return {*} {number}
+     * @memberof App
+     * @since 1.1.0
+     */
+    countRounds = (data: TimerData): number => {
+        return data.completedRounds !== undefined ? data.completedRounds : data.rounds ? data.rounds.length : 0;
+    };
+
+    /**
+     * loadTimer
+     *
+     * Load the timer stored under the given key and upgrade it to the current schema.
+     * Records that fail validation are quarantined and reported to the user instead.
+     * Records written by a newer version of the app, e.g. in a tab opened after an update, are skipped and left alone.
+     *
+     * @param {string} key Storage key of the timer
+     * @return {*} {Promise<TimerData | null>}
+     * @memberof App
+     * @since 1.1.0
+     */
+    loadTimer = (key: string): Promise<TimerData | null> => {
+        return this.storage
+            .get(key)
+            .then(raw => {
+                // The timer might have been removed in the meantime, e.g. in another tab.
+                if (raw === null) {
+                    return null;
+                }
+
+                // Leave the record to the newer version, which can read it.
+                if (isNewerRecord(raw)) {
+                    return null;
+                }
+
+                const data = migrateTimer(raw);
+
+                if (!data) {
+                    this.quarantineTimer(key);
+                    return null;
+                }
+
+                // Save the upgraded record.
+                if ((raw as TimerData).version !== data.version) {
+                    this.storage.set(key, data);
+                }
+
+                return data;
+            })
+            .catch(error => {
+                // Unreadable JSON is corrupt as well, other errors leave the record for the next load.
+                if (error instanceof SyntaxError) {
+                    this.quarantineTimer(key);
+                }
+
+                return null;
+            });
+    };
+
+    /**
+     * quarantineTimer
+     *
+     * Move the corrupt timer stored under the given key out of the way, so it can't break the Landing slide.
+     *
+     * @param {string} key Storage key of the timer
+     * @memberof App
+     * @since 1.1.0
+     */
+    quarantineTimer = (key: string) => {
+        this.storage.quarantine(key);
+        this.showMessage('A corrupt timer could not be loaded and was set aside');
+    };
+
+    /**
+     * compareTimers
+     *
+     * Sort timers by their stored order.
+     * Timers saved before they had an order follow, sorted by id so they keep their position between loads.
+     *
+     * @param {TimerData} a
+     * @param {TimerData} b
+     * @return {*} {number}
+     * @memberof App
+     * @since 1.1.0
+     */
+    compareTimers = (a: TimerData, b: TimerData): number => {
+        const orderA = a.order !== undefined ? a.order : Infinity;
+        const orderB = b.order !== undefined ? b.order : Infinity;
+
+        return orderA === orderB ? a.id - b.id : orderA < orderB ? -1 : 1;
+    };
+
+    /**
+     * loadGroups
+     *
+     * Load all timer groups in the order they were created.
+     * Corrupt groups are left out.
+     *
+     * @return {*} {Promise<TimerGroup[]>}
+     * @memberof App
+     * @since 1.1.0
+     */
+    loadGroups = async (): Promise<TimerGroup[]> => {
+        const groups: TimerGroup[] = [];
+
+        for (const key of await this.groupStorage.keys()) {
+            const group = await this.groupStorage.get(key).catch(() => null);
+
+            if (isTimerGroup(group)) {
+                groups.push(group);
+            }
+        }
+
+        return groups.sort((a, b) => a.id - b.id);
+    };
+
     /**
      * getLandingData
      *
-     * Retrieve the Landing data from localStorage.
+     * Retrieve the Landing data, the timer groups and the presets from storage.
+     * Running timers are rehydrated so they resume where they left off, once per tab.
      *
      * @memberof App
      * @since 1.0.0
      */
     getLandingData = () => {
-        // We make sure to reset the array for each call.
-        this.landingData = [];
-
         // Find all keys in storage.
         this.storage.keys().then(keys => {
-            if (keys && keys.length) {
-                // Loop over each available key.
-                for (const key of keys) {
-                    // Use each key to look up its value.
-                    this.storage
-                        .get(key)
-                        .then(data => {
-                            // Push the found checklist data to our array.
-                            this.landingData.push(data as TimerData);
-                        })
-                        .then(() => {
-                            // Update the state Landing data.
-                            this.setState({
-                                landingData: this.landingData
-                            });
-                        });
-                }
-            } else {
-                // This simply resets the Landing data as the array will be empty.
+            // Use each key to look up its value.
+            Promise.all([
+                Promise.all(keys.map(key => this.loadTimer(key))),
+                this.loadGroups(),
+                this.presets.load()
+            ]).then(([timers, groups, presets]) => {
+                // Keep the found timers in their stored order.
+                // Timers this tab already runs catch up by themselves, the others are rehydrated.
+                this.landingData = timers
+                    .filter((data): data is TimerData => data !== null)
+                    .map(data => (this.timers.get(data.id) ? data : this.rehydrateTimer(data)))
+                    .sort(this.compareTimers);
+
+                // Bring the run state of the timers up to date.
+                this.timers.sync(this.landingData);
+
+                // Update the state Landing data.
                 this.setState({
-                    landingData: this.landingData
+                    groups: groups,
+                    landingData: this.landingData,
+                    presets: presets
                 });
-            }
+            });
         });
     };
 
@@ -113,6 +377,143 @@ export default class App extends React.Component<{}, AppState> {
         });
     };
 
+    /**
+     * notifyFinished
+     *
+     * Show a desktop notification for the finished timer.
+     * Clicking it returns the user to the Landing slide.
+     *
+     * @param {number} id The id of the finished timer
+     * @param {string} [title] The title of the finished timer
+     * @memberof App
+     * @since 1.1.0
+     */
+    notifyFinished = (id: number, title?: string) => {
+        // Only notify once for all open tabs.
+        if (!AlarmManager.leader) return;
+
+        const message = `${title ? title : 'Untitled'} is done`;
+
+        this.notifications.notify(message, 'Your timer has finished.', `timer-${id}`, () => {
+            // Return to the Landing slide if another slide is open.
+            if (!this.state.landingActive) {
+                this.goBack();
+            }
+        });
+    };
+
+    /**
+     * syncChange
+     *
+     * Apply a change another tab made to the stored data.
+     *
+     * @param {string | null} key The changed storage key, `null` if everything was cleared
+     * @memberof App
+     * @since 1.1.0
+     */
+    syncChange = (key: string | null) => {
+        // Re-apply changed preferences.
+        if (key === null || key.startsWith('app-')) {
+            new PreferencesManager().applyPreferences();
+        }
+
+        // Reload the timers, groups and presets.
+        if (
+            key === null ||
+            [this.storage.prefix, this.groupStorage.prefix, this.presets.storage.prefix].some(prefix =>
+                key.startsWith(`${prefix}-`)
+            )
+        ) {
+            this.syncTimers();
+        }
+    };
+
+    /**
+     * handleShortcut
+     *
+     * Navigate the app with the user's keyboard shortcuts.
+     * Starting, pausing and stopping is handled by the focused timer itself.
+     *
+     * @param {KeyboardEvent} $event
+     * @memberof App
+     * @since 1.1.0
+     */
+    handleShortcut = ($event: KeyboardEvent) => {
+        // Leave the keyboard to open dialogs.
+        if (document.getElementById('dialog')!.childElementCount || this.shortcuts.isIgnored($event)) return;
+
+        // Number keys focus the timer at that position.
+        if (/^[1-9]$/.test($event.key)) {
+            const timers = document.querySelectorAll<HTMLElement>('.mdf-timer-grid:not([hidden]) .mdf-timer');
+            const timer = timers[parseInt($event.key) - 1];
+
+            if (timer && this.state.landingActive) {
+                $event.preventDefault();
+                timer.focus();
+            }
+
+            return;
+        }
+
+        switch (this.shortcuts.match($event)) {
+            case 'add':
+                if (this.state.landingActive) {
+                    $event.preventDefault();
+                    this.openSlide('add');
+                }
+                break;
+            case 'back':
+                if (!this.state.landingActive) {
+                    $event.preventDefault();
+                    this.goBack();
+                }
+                break;
+            case 'help':
+                $event.preventDefault();
+                this.setState({ shortcutsActive: true });
+                break;
+        }
+    };
+
+    /**
+     * listShortcuts
+     *
+     * Render the keyboard shortcuts cheat-sheet.
+     *
+     * @memberof App
+     * @since 1.1.0
+     */
+    listShortcuts = () => {
+        const keys = this.shortcuts.getKeys();
+
+        return (
+            <dl className="mdf-shortcuts">
+                {this.shortcuts.actions.map(({ action, label }) => (
+                    <div key={action} className="mdf-shortcuts__item">
+                        <dt>
+                            <kbd>{this.shortcuts.describe(keys[action])}</kbd>
+                        </dt>
+                        <dd>{label}</dd>
+                    </div>
+                ))}
+
+                <div className="mdf-shortcuts__item">
+                    <dt>
+                        <kbd>1</kbd> &ndash; <kbd>9</kbd>
+                    </dt>
+                    <dd>Focus the timer at that position</dd>
+                </div>
+
+                <div className="mdf-shortcuts__item">
+                    <dt>
+                        <kbd>Alt</kbd> + <kbd>&uarr;</kbd> <kbd>&darr;</kbd>
+                    </dt>
+                    <dd>Move the focused timer</dd>
+                </div>
+            </dl>
+        );
+    };
+
     /**
      * removeMessage
      *
@@ -216,7 +617,7 @@ export default class App extends React.Component<{}, AppState> {
         });
 
         // Update the state after the slide transition is done.
-        setTimeout(() => this.setState({ activeSlide: null }), 360);
+        setTimeout(() => this.setState({ activeSlide: null, slideData: null }), 360);
     };
 
     render() {
@@ -226,7 +627,11 @@ export default class App extends React.Component<{}, AppState> {
                     <div className="mdf-slides">
                         <Landing
                             data={this.state.landingData}
+                            groups={this.state.groups}
+                            presets={this.state.presets}
                             receiveFocus={this.state.landingActive}
+                            controller={this.timers}
+                            running={this.state.running}
                             onMessage={this.showMessage}
                             onRefresh={this.getLandingData}
                             onSlideChange={this.openSlide}
@@ -234,6 +639,9 @@ export default class App extends React.Component<{}, AppState> {
 
                         <Slide
                             name={this.state.activeSlide}
+                            data={this.state.slideData}
+                            groups={this.state.groups}
+                            presets={this.state.presets}
                             onBack={this.goBack}
                             onMessage={this.showMessage}
                             onRefresh={this.getLandingData}
@@ -244,6 +652,20 @@ export default class App extends React.Component<{}, AppState> {
                         </SnackbarContext.Provider>
                     </div>
                 </div>
+
+                {this.state.shortcutsActive && (
+                    <Dialog
+                        title={'Keyboard shortcuts'}
+                        description={'Use these keys to control your timers and move around the app.'}
+                        confirmLabel={'Close'}
+                        hideCancel={true}
+                        keyboard={true}
+                        onConfirm={() => this.setState({ shortcutsActive: false })}
+                        onCancel={() => this.setState({ shortcutsActive: false })}
+                    >
+                        {this.listShortcuts()}
+                    </Dialog>
+                )}
             </div>
         );
     }
@@ -262,7 +684,33 @@ export default class App extends React.Component<{}, AppState> {
         // Re-calculate slide width on window resize.
         window.onresize = debounce(() => this.calcWidth(), 60);
 
-        // Get the initial data set for the Landing slide.
-        this.getLandingData();
+        // Run the timers and keep track of the running ones for the global controls.
+        this.timers.listen({
+            onChange: running => this.setState({ running: running }),
+            onFinish: this.notifyFinished,
+            onMessage: this.showMessage,
+            onRun: this.titles.setRun
+        });
+
+        // Select the storage backend, then get the initial data set for the Landing slide.
+        // If IndexedDB can't be set up, the data stays in localStorage and is loaded from there.
+        Storage.init()
+            .catch(() => null)
+            .then(() => this.getLandingData());
+
+        // Only one tab rings the alarms.
+        AlarmManager.elect();
+
+        // Listen for keyboard shortcuts.
+        window.addEventListener('keydown', this.handleShortcut);
+
+        // Keep in sync with other tabs.
+        Storage.onChange(this.syncChange);
+        window.addEventListener('storage', (event: StorageEvent) => this.syncChange(event.key));
+
+        // Work offline and let the user know when an update is ready.
+        this.serviceWorker.register(() =>
+            this.showMessage('A new version is available, close all tabs of the app to update')
+        );
     }
 }
@@ -1,9 +1,14 @@
 import React from 'react';
 import Preferences from './components/Preferences/Preferences';
 import Add from './components/Add/Add';
+import Stats from './components/Stats/Stats';
+import { TimerData, TimerGroup, TimerPreset } from './types';
 
 type SlideProps = {
     name: string | null;
+    data?: TimerData | null;
+    groups?: TimerGroup[];
+    presets?: TimerPreset[];
     onBack: () => void;
     onMessage: (message: string) => void;
     onRefresh: () => void;
@@ -23,7 +28,9 @@ export default class Slide extends React.Component<SlideProps> {
     // Holds the available Slide components.
     components: Record<string, React.ElementType> = {
         preferences: Preferences,
-        add: Add
+        add: Add,
+        edit: Add,
+        stats: Stats
     };
 
     /**
@@ -66,7 +73,16 @@ export default class Slide extends React.Component<SlideProps> {
     render() {
         if (this.props.name && this.props.name.length) {
             const SlideComponent = this.components[this.props.name];
-            return <SlideComponent onBack={this.goBack} onMessage={this.catchMessage} onRefresh={this.refresh} />;
+            return (
+                <SlideComponent
+                    data={this.props.data}
+                    groups={this.props.groups}
+                    presets={this.props.presets}
+                    onBack={this.goBack}
+                    onMessage={this.catchMessage}
+                    onRefresh={this.refresh}
+                />
+            );
         }
         return null;
     }
@@ -0,0 +1,155 @@
+import { AlarmSound } from './types';
+
+// The Web Locks API is not part of our DOM typings yet.
+type LockManager = { request: (name: string, callback: () => Promise<void>) => Promise<void> };
+
+// Describes how a sound is generated: the notes played each second, how far apart and how long they ring (in s).
+type SoundSettings = { label: string; type: OscillatorType; notes: number[]; spacing: number; length: number };
+
+/**
+ * AlarmManager
+ *
+ * Plays a generated alarm sound through the Web Audio API.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/Web_Audio_API
+ *
+ * @export
+ * @class AlarmManager
+ * @version 1.0.0
+ */
+export default class AlarmManager {
+    static leader: boolean = true; // Whether this tab rings the alarms.
+
+    // Holds the available alarm sounds.
+    static sounds: Record<AlarmSound, SoundSettings> = {
+        beep: { label: 'Beep', type: 'sine', notes: [880, 880, 880], spacing: 0.2, length: 0.15 },
+        chime: { label: 'Chime', type: 'sine', notes: [523, 659, 784], spacing: 0.25, length: 0.6 },
+        bell: { label: 'Bell', type: 'triangle', notes: [660], spacing: 0, length: 0.9 },
+        digital: { label: 'Digital', type: 'square', notes: [1200, 1200, 1200, 1200], spacing: 0.1, length: 0.06 },
+        silent: { label: 'Silent', type: 'sine', notes: [], spacing: 0, length: 0 }
+    };
+
+    context: AudioContext | null = null; // Audio context used to generate the sound.
+    duration: number = 60000; // Amount of time before the alarm stops by itself (in ms).
+    interval: number = 0; // Interval instance for the repeated beeps.
+    sound: SoundSettings = AlarmManager.sounds.beep; // Sound of the ringing alarm.
+    timeout: number = 0; // Timeout instance for the automatic stop.
+
+    /**
+     * elect
+     *
+     * Make sure only one open tab rings the alarms.
+     * The tab holding the lock is the leader, the others take over once it is closed.
+     * Every tab stays leader if the browser has no Web Locks support.
+     * @see https://developer.mozilla.org/en-US/docs/Web/API/Web_Locks_API
+     *
+     * @static
+     * @memberof AlarmManager
+     * @since 1.1.0
+     */
+    static elect() {
+        const locks = (navigator as Navigator & { locks?: LockManager }).locks;
+
+        if (!locks) return;
+
+        // Follow until the lock is ours.
+        AlarmManager.leader = false;
+
+        // Hold on to the lock for as long as the tab is open.
+        locks.request('countdown-alarm', () => {
+            AlarmManager.leader = true;
+            return new Promise<void>(() => {});
+        });
+    }
+
+    /**
+     * play
+     *
+     * Start ringing the alarm until it is stopped or the duration runs out.
+     *
+     * @param {number} [duration] Amount of time before the alarm stops by itself (in ms)
+     * @param {AlarmSound} [sound] Sound to play, unknown sounds fall back to `beep`
+     * @memberof AlarmManager
+     * @since 1.0.0
+     */
+    play = (duration: number = this.duration, sound: AlarmSound = 'beep') => {
+        // Make sure only one alarm is ringing at a time.
+        this.stop();
+
+        this.sound = AlarmManager.sounds[sound] ? AlarmManager.sounds[sound] : AlarmManager.sounds.beep;
+
+        // Silent alarms only show up on screen.
+        if (!this.sound.notes.length) return;
+
+        // Older Safari versions only offer the prefixed constructor.
+        const AudioContextClass =
+            window.AudioContext ||
+            (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+
+        // Don't continue if the browser has no Web Audio support.
+        if (!AudioContextClass) return;
+
+        this.context = new AudioContextClass();
+
+        // Ring right away and then repeat every second.
+        this.beep();
+        this.interval = window.setInterval(this.beep, 1000);
+
+        // Stop the alarm automatically so it doesn't ring forever.
+        this.timeout = window.setTimeout(this.stop, duration);
+    };
+
+    /**
+     * beep
+     *
+     * Schedule the notes of the current sound.
+     *
+     * @memberof AlarmManager
+     * @since 1.0.0
+     */
+    beep = () => {
+        const context = this.context;
+
+        if (!context) return;
+
+        const now = context.currentTime;
+        const { type, notes, spacing, length } = this.sound;
+
+        notes.forEach((note, i) => {
+            const oscillator = context.createOscillator();
+            const gain = context.createGain();
+            const start = now + i * spacing;
+
+            oscillator.type = type;
+            oscillator.frequency.value = note;
+
+            // Fade each note in and out to avoid audible clicks.
+            gain.gain.setValueAtTime(0.0001, start);
+            gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+            gain.gain.exponentialRampToValueAtTime(0.0001, start + length);
+
+            oscillator.connect(gain);
+            gain.connect(context.destination);
+
+            oscillator.start(start);
+            oscillator.stop(start + length + 0.01);
+        });
+    };
+
+    /**
+     * stop
+     *
+     * Stop the alarm and release the audio context.
+     *
+     * @memberof AlarmManager
+     * @since 1.0.0
+     */
+    stop = () => {
+        clearInterval(this.interval);
+        clearTimeout(this.timeout);
+
+        if (this.context) {
+            this.context.close();
+            this.context = null;
+        }
+    };
+}
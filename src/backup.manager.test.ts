@@ -0,0 +1,94 @@
+import BackupManager from './backup.manager';
+import { SCHEMA_VERSION } from './schema';
+import { Backup, TimerData } from './types';
+
+const createBackup = (timers: TimerData[]): Backup => ({
+    app: 'countdown',
+    version: 1,
+    exported: '2026-10-19T12:00:00.000Z',
+    preferences: {},
+    timers: timers,
+    groups: [{ id: 7, name: 'Kitchen' }],
+    templates: []
+});
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+describe('parse', () => {
+    const manager = new BackupManager();
+
+    test('reads valid backups and fills in what older ones lack', () => {
+        const backup = manager.parse(
+            JSON.stringify({ app: 'countdown', version: 1, exported: '', timers: [{ id: '5', time: '60' }] })
+        );
+
+        expect(backup.timers).toEqual([{ id: 5, time: 60, mode: 'countdown', version: SCHEMA_VERSION }]);
+        expect(backup.groups).toEqual([]);
+        expect(backup.templates).toEqual([]);
+        expect(backup.preferences).toEqual({});
+    });
+
+    test('rejects files that are not valid backups', () => {
+        const parse = (backup: unknown) => () => manager.parse(JSON.stringify(backup));
+
+        expect(() => manager.parse('{')).toThrow('The selected file is not a valid JSON file');
+        expect(parse({ app: 'other', version: 1, timers: [] })).toThrow('The selected file is not a timer backup');
+        expect(parse({ app: 'countdown', version: 2, timers: [] })).toThrow('newer version');
+        expect(parse({ app: 'countdown', version: 1 })).toThrow('The backup contains invalid timers');
+        expect(parse({ app: 'countdown', version: 1, timers: [{ id: 'abc' }] })).toThrow('invalid timers');
+        expect(parse({ app: 'countdown', version: 1, timers: [], groups: [{ id: 1 }] })).toThrow('invalid groups');
+        expect(parse({ app: 'countdown', version: 1, timers: [], templates: [{ id: 1, time: 60 }] })).toThrow(
+            'invalid templates'
+        );
+    });
+});
+
+describe('restore', () => {
+    test('replaces the existing timers and groups', async () => {
+        const manager = new BackupManager();
+
+        await manager.storage.set('1', { id: 1, time: 60, title: 'Old' });
+        await manager.storage.set('2', { id: 2, time: 60, title: 'Kept id' });
+        await manager.groupStorage.set('8', { id: 8, name: 'Old' });
+
+        await manager.restore(createBackup([{ id: 2, time: 120, title: 'New' }]), true);
+
+        expect(await manager.storage.keys()).toEqual(['timer-2']);
+        expect(await manager.storage.get('2')).toEqual({ id: 2, time: 120, title: 'New', order: 0 });
+        expect(await manager.groupStorage.keys()).toEqual(['group-7']);
+    });
+
+    test('keeps the existing data if saving fails', async () => {
+        const manager = new BackupManager();
+
+        await manager.storage.set('1', { id: 1, time: 60, title: 'Old' });
+        jest.spyOn(manager.storage, 'set').mockRejectedValue(new Error('QuotaExceededError'));
+
+        await expect(manager.restore(createBackup([{ id: 2, time: 120 }]), true)).rejects.toThrow();
+
+        expect(await manager.storage.get('1')).toEqual({ id: 1, time: 60, title: 'Old' });
+    });
+
+    test('drops the run state of imported timers', async () => {
+        const manager = new BackupManager();
+        const running: TimerData = {
+            id: 3,
+            time: 60,
+            deadline: 1000,
+            finished: true,
+            paused: false,
+            remaining: 0,
+            repeat: { count: 3 },
+            rounds: [500],
+            completedRounds: 1,
+            schedule: { at: 2000 },
+            waitUntil: 900
+        };
+
+        await manager.restore(createBackup([running]), false);
+
+        expect(await manager.storage.get('3')).toEqual({ id: 3, time: 60, repeat: { count: 3 }, order: 0 });
+    });
+});
@@ -0,0 +1,286 @@
+import PreferencesManager from './preferences.manager';
+import PresetManager from './preset.manager';
+import Storage from './storage';
+import { generateUUID, nextOccurrence, nextTimerOrder } from './helpers';
+import { isTimerGroup, isTimerPreset, migrateTimer } from './schema';
+import { Backup, TimerData, TimerGroup, TimerPreset } from './types';
+
+/**
+ * BackupManager
+ *
+ * Handle exporting and importing all timers, groups, templates and preferences as a JSON file.
+ *
+ * @export
+ * @class BackupManager
+ * @version 1.0.0
+ */
+export default class BackupManager {
+    app: string = 'countdown'; // Identifies backups created by this app.
+    groupStorage = new Storage('group'); // Storage wrapper to handle timer groups.
+    preferences = new PreferencesManager(); // Handles getting/setting the user settings.
+    presets = new PresetManager(); // Handles the user's templates.
+    storage = new Storage('timer'); // localStorage wrapper to handle timer data.
+    version: number = 1; // Version of the backup format.
+
+    /**
+     * createBackup
+     *
+     * Collect all timers, groups, templates and preferences.
+     *
+     * @return {*} {Promise<Backup>}
+     * @memberof BackupManager
+     * @since 1.0.0
+     */
+    createBackup = async (): Promise<Backup> => {
+        const timers: TimerData[] = [];
+        const groups: TimerGroup[] = [];
+        const templates: TimerPreset[] = [];
+        const preferences: Record<string, string> = {};
+
+        // Collect all stored timers.
+        for (const key of await this.storage.keys()) {
+            // Corrupt records are left out of the backup.
+            const data = migrateTimer(await this.storage.get(key).catch(() => null));
+
+            if (data) {
+                timers.push(data);
+            }
+        }
+
+        // Collect all stored groups.
+        for (const key of await this.groupStorage.keys()) {
+            const group = await this.groupStorage.get(key).catch(() => null);
+
+            if (isTimerGroup(group)) {
+                groups.push(group);
+            }
+        }
+
+        // Collect all stored templates.
+        for (const key of await this.presets.storage.keys()) {
+            const template = await this.presets.storage.get(key).catch(() => null);
+
+            if (isTimerPreset(template)) {
+                templates.push(template);
+            }
+        }
+
+        // Collect all stored settings.
+        for (const setting of this.preferences.settings) {
+            const value = this.preferences.get(setting);
+
+            if (value !== null) {
+                preferences[setting] = value;
+            }
+        }
+
+        return {
+            app: this.app,
+            version: this.version,
+            exported: new Date().toISOString(),
+            preferences: preferences,
+            timers: timers,
+            groups: groups,
+            templates: templates
+        };
+    };
+
+    /**
+     * download
+     *
+     * Create a backup and offer it to the user as a file download.
+     *
+     * @return {*} {Promise<number>} The number of exported timers
+     * @memberof BackupManager
+     * @since 1.0.0
+     */
+    download = async (): Promise<number> => {
+        const backup = await this.createBackup();
+        const blob = new Blob([JSON.stringify(backup, null, 4)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        // Use a temporary link to trigger the download.
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `countdown-backup-${backup.exported.slice(0, 10)}.json`;
+        link.click();
+
+        // Release the file once the download started.
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+        return backup.timers.length;
+    };
+
+    /**
+     * parse
+     *
+     * Parse and validate the contents of a backup file.
+     * Throws an error with a user facing message if the file is not a valid backup.
+     *
+     * @param {string} text Contents of the backup file
+     * @return {*} {Backup}
+     * @memberof BackupManager
+     * @since 1.0.0
+     */
+    parse = (text: string): Backup => {
+        let backup: Backup;
+
+        try {
+            backup = JSON.parse(text);
+        } catch {
+            throw new Error('The selected file is not a valid JSON file');
+        }
+
+        if (!backup || typeof backup !== 'object' || backup.app !== this.app) {
+            throw new Error('The selected file is not a timer backup');
+        }
+
+        if (typeof backup.version !== 'number' || backup.version > this.version) {
+            throw new Error('The backup was created by a newer version of the app');
+        }
+
+        if (!Array.isArray(backup.timers)) {
+            throw new Error('The backup contains invalid timers');
+        }
+
+        // Bring older timers up to date.
+        const timers = backup.timers.map(migrateTimer);
+
+        if (timers.some(timer => timer === null)) {
+            throw new Error('The backup contains invalid timers');
+        }
+
+        backup.timers = timers as TimerData[];
+
+        // Backups created before groups existed have none.
+        if (backup.groups === undefined) {
+            backup.groups = [];
+        }
+
+        if (!Array.isArray(backup.groups) || !backup.groups.every(isTimerGroup)) {
+            throw new Error('The backup contains invalid groups');
+        }
+
+        // Backups created before templates existed have none.
+        if (backup.templates === undefined) {
+            backup.templates = [];
+        }
+
+        if (!Array.isArray(backup.templates) || !backup.templates.every(isTimerPreset)) {
+            throw new Error('The backup contains invalid templates');
+        }
+
+        if (!backup.preferences || typeof backup.preferences !== 'object') {
+            backup.preferences = {};
+        }
+
+        return backup;
+    };
+
+    /**
+     * clearRunState
+     *
+     * Drop the run state of the given timer, so it shows up stopped.
+     * The runs recorded in a backup happened on another device or a long time ago.
+     * Recurring schedules move on to their next start, one-off schedules are dropped.
+     *
+     * @param {TimerData} timer The imported timer
+     * @return {*} {TimerData}
+     * @memberof BackupManager
+     * @since 1.1.0
+     */
+    clearRunState = (timer: TimerData): TimerData => {
+        const { schedule } = timer;
+        const recurring = !!schedule && !!schedule.time && !!schedule.days && schedule.days.length > 0;
+
+        return {
+            ...timer,
+            completedRounds: undefined,
+            deadline: undefined,
+            elapsed: undefined,
+            finished: undefined,
+            laps: undefined,
+            paused: undefined,
+            phase: undefined,
+            remaining: undefined,
+            rounds: undefined,
+            schedule: recurring
+                ? { at: nextOccurrence(schedule!.time!, schedule!.days!), time: schedule!.time, days: schedule!.days }
+                : undefined,
+            startTime: undefined,
+            stopped: undefined,
+            target: undefined,
+            waitUntil: undefined
+        };
+    };
+
+    /**
+     * restore
+     *
+     * Save the timers, groups and templates from the given backup.
+     * When merging, imported timers whose id is already taken receive a new id.
+     * Imported timers keep their order among each other and follow the existing timers.
+     * Groups and templates with the same id are the same, so they are simply overwritten.
+     * When replacing, the existing data is only removed once everything was imported, so a failed import loses nothing.
+     *
+     * @param {Backup} backup The validated backup
+     * @param {boolean} replace Whether to remove all existing timers, groups and templates
+     * @return {*} {Promise<number>} The number of imported timers
+     * @memberof BackupManager
+     * @since 1.0.0
+     */
+    restore = async (backup: Backup, replace: boolean): Promise<number> => {
+        const keys = (await this.storage.keys()).map(key => key.replace(`${this.storage.prefix}-`, ''));
+        const groupKeys = (await this.groupStorage.keys()).map(key => key.replace(`${this.groupStorage.prefix}-`, ''));
+        const templateKeys = (await this.presets.storage.keys()).map(key =>
+            key.replace(`${this.presets.storage.prefix}-`, '')
+        );
+        const groups = backup.groups ? backup.groups : [];
+        const templates = backup.templates ? backup.templates : [];
+
+        for (const group of groups) {
+            await this.groupStorage.set(group.id.toString(), group);
+        }
+
+        for (const template of templates) {
+            await this.presets.storage.set(template.id.toString(), { ...template, builtIn: undefined });
+        }
+
+        // Keep track of the ids in use, replaced timers hand theirs over.
+        const ids = new Set(replace ? [] : keys.map(key => parseInt(key)));
+
+        // Imported timers follow the existing ones in their stored order.
+        const last = Number.MAX_SAFE_INTEGER;
+        const timers = [...backup.timers].sort(
+            (a, b) => (a.order !== undefined ? a.order : last) - (b.order !== undefined ? b.order : last)
+        );
+        let order = replace ? 0 : await nextTimerOrder(this.storage);
+
+        for (const timer of timers) {
+            const id = ids.has(timer.id) ? generateUUID() : timer.id;
+            ids.add(id);
+
+            await this.storage.set(id.toString(), { ...this.clearRunState(timer), id: id, order: order++ });
+        }
+
+        // Remove the replaced timers, groups and templates, unless the backup brought them back.
+        if (replace) {
+            const groupIds = groups.map(group => group.id.toString());
+            const templateIds = templates.map(template => template.id.toString());
+
+            for (const key of keys.filter(key => !ids.has(parseInt(key)))) {
+                await this.storage.delete(key);
+            }
+
+            for (const key of groupKeys.filter(key => !groupIds.includes(key))) {
+                await this.groupStorage.delete(key);
+            }
+
+            for (const key of templateKeys.filter(key => !templateIds.includes(key))) {
+                await this.presets.storage.delete(key);
+            }
+        }
+
+        return backup.timers.length;
+    };
+}
@@ -1,25 +1,70 @@
 import React from 'react';
 import Input from './Input';
+import AlarmManager from '../../alarm.manager';
+import PreferencesManager from '../../preferences.manager';
+import PresetManager from '../../preset.manager';
 import Storage from '../../storage';
-import { TimerData } from '../../types';
+import { generateUUID, nextOccurrence, nextTimerOrder, parseDuration } from '../../helpers';
+import { SCHEMA_VERSION } from '../../schema';
+import {
+    AlarmSound,
+    TimerData,
+    TimerGroup,
+    TimerMode,
+    TimerPhase,
+    TimerPreset,
+    TimerRepeat,
+    TimerSchedule
+} from '../../types';
 
 import './Add.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
+import Presets from '../Presets/Presets';
+
+// The timer settings entered into the form.
+type TimerSettings = Pick<
+    TimerData,
+    'title' | 'time' | 'mode' | 'phases' | 'targetTime' | 'repeat' | 'accent' | 'icon' | 'sound'
+>;
 
 interface AddProps {
+    data?: TimerData | null;
+    groups?: TimerGroup[];
+    presets?: TimerPreset[];
     onBack: () => void;
     onRefresh: () => void;
     onMessage: (message: string) => void;
 }
 
 interface AddState {
+    accent: string;
+    entry: 'quick' | 'fields' | 'target';
     error: boolean;
+    errorMessage: string;
+    group: string;
+    icon: string;
+    mode: TimerMode;
+    preview: string;
+    repeat: '' | 'count' | 'forever';
+    schedule: '' | 'at' | 'in';
+    scheduleChanged: boolean;
+    scheduleDays: number[];
+    sound: AlarmSound;
+    time: number;
 }
 
 /**
  * Add
- * 
+ *
  * Display form to save a new timer to localStorage.
+ * When timer data is supplied, the form edits that timer instead.
+ * Offers countdowns, stopwatches and pomodoro style sequences.
+ * Countdown durations are typed into a single quick entry field or the separate hours, minutes and seconds fields.
+ * Countdowns can also run until a time of day instead, e.g. until 14:30.
+ * Countdowns can repeat a number of times or forever, with an optional break between rounds.
+ * Each timer can get its own accent color, icon and alarm sound.
+ * New timers can also be created from a preset with one click, and the form can be saved as a template.
+ * Timers can be scheduled to start at a set time, optionally repeating on weekdays, or after a delay.
  *
  * @export
  * @class Add
@@ -28,43 +73,74 @@ interface AddState {
  */
 export default class Add extends React.Component<AddProps, AddState> {
     titleRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the title input.
+    groupNameRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the new group name input.
+    durationRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the quick entry duration input.
+    targetRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the target time of day input.
     hoursRef: React.RefObject<Input> = React.createRef(); // Ref to the hours input.
     minutesRef: React.RefObject<Input> = React.createRef(); // Ref to the minutes input.
     secondsRef: React.RefObject<Input> = React.createRef(); // Ref to the seconds input.
+    workRef: React.RefObject<Input> = React.createRef(); // Ref to the sequence work minutes input.
+    breakRef: React.RefObject<Input> = React.createRef(); // Ref to the sequence break minutes input.
+    longBreakRef: React.RefObject<Input> = React.createRef(); // Ref to the sequence long break minutes input.
+    roundsRef: React.RefObject<Input> = React.createRef(); // Ref to the sequence rounds input.
+    repeatCountRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the repeat rounds input.
+    repeatDelayRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the break between rounds input.
+    scheduleTimeRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the scheduled start time input.
+    scheduleDelayRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the scheduled start delay input.
 
-    storage = new Storage('timer'); // localStorage wrapper to save the timer.
-
-    state = { error: false };
-
-    /**
-     * generateUUID
-     *
-     * Generate unique id for our checklist.
-     *
-     * @memberof Add
-     * @since 1.0.0
-     */
-    generateUUID = (): number => {
-        // Set min and max values.
-        const min = 0;
-        const max = 8;
-
-        // This will generate an Array holding different integers.
-        const baseArray = window.crypto.getRandomValues(new Uint32Array(max));
+    // Holds the available timer modes.
+    modes: { label: string; mode: TimerMode }[] = [
+        { label: 'Countdown', mode: 'countdown' },
+        { label: 'Stopwatch', mode: 'stopwatch' },
+        { label: 'Pomodoro', mode: 'sequence' }
+    ];
 
-        // We use this seed to pick a random number between the set min and the max range.
-        const seed = Math.floor(Math.random() * (max - 1 - min) + min);
+    // Holds the weekdays a scheduled start can repeat on, starting with Monday.
+    weekdays: { day: number; label: string }[] = [
+        { day: 1, label: 'Monday' },
+        { day: 2, label: 'Tuesday' },
+        { day: 3, label: 'Wednesday' },
+        { day: 4, label: 'Thursday' },
+        { day: 5, label: 'Friday' },
+        { day: 6, label: 'Saturday' },
+        { day: 0, label: 'Sunday' }
+    ];
 
-        // Select the UUID from the array.
-        const uuid = baseArray[seed];
+    alarm = new AlarmManager(); // Plays a preview of the selected sound.
+    groupStorage = new Storage('group'); // Storage wrapper to save a new group.
+    preferences = new PreferencesManager(); // Holds the available accents and icons.
+    presets = new PresetManager(); // Saves templates and creates timers from presets.
+    storage = new Storage('timer'); // localStorage wrapper to save the timer.
 
-        // Return the UUID as an absolute value.
-        return Math.abs(uuid + Date.now());
+    // Start in the mode, group, style, repeat, schedule and with the duration of the timer we are editing.
+    state: AddState = {
+        accent: this.props.data && this.props.data.accent ? this.props.data.accent : '',
+        entry: this.props.data && this.props.data.targetTime ? 'target' : 'quick',
+        error: false,
+        errorMessage: '',
+        group: this.props.data && this.props.data.group !== undefined ? this.props.data.group.toString() : '',
+        icon: this.props.data && this.props.data.icon ? this.props.data.icon : '',
+        mode: this.props.data && this.props.data.mode ? this.props.data.mode : 'countdown',
+        preview: '',
+        repeat: this.props.data && this.props.data.repeat ? (this.props.data.repeat.count ? 'count' : 'forever') : '',
+        schedule: this.props.data && this.props.data.schedule ? 'at' : '',
+        scheduleChanged: false,
+        scheduleDays:
+            this.props.data && this.props.data.schedule && this.props.data.schedule.days
+                ? this.props.data.schedule.days
+                : [],
+        sound: this.props.data && this.props.data.sound ? this.props.data.sound : 'beep',
+        time:
+            this.props.data &&
+            (!this.props.data.mode || this.props.data.mode === 'countdown') &&
+            !this.props.data.targetTime
+                ? this.props.data.time
+                : 0
     };
 
     /**
      * calcTime
-     * 
+     *
      * Calculate the total given time in seconds.
      *
      * @param {number} [h] Number of hours
@@ -88,7 +164,422 @@ export default class Add extends React.Component<AddProps, AddState> {
 
         // Return it to our script.
         return time;
-    }
+    };
+
+    /**
+     * splitTime
+     *
+     * Split the given total time into hours, minutes and seconds.
+     *
+     * @param {number} time Total time in seconds
+     * @memberof Add
+     * @since 1.1.0
+     */
+    splitTime = (time: number): { hours: number; minutes: number; seconds: number } => {
+        return {
+            hours: Math.floor(time / 3600),
+            minutes: Math.floor((time % 3600) / 60),
+            seconds: time % 60
+        };
+    };
+
+    /**
+     * formatTime
+     *
+     * Format the given total time for the quick entry field, e.g. `1h 30m`.
+     *
+     * @param {number} time Total time in seconds
+     * @memberof Add
+     * @since 1.1.0
+     */
+    formatTime = (time: number): string => {
+        const { hours, minutes, seconds } = this.splitTime(time);
+
+        return [hours ? `${hours}h` : '', minutes ? `${minutes}m` : '', seconds ? `${seconds}s` : '']
+            .filter(part => part.length)
+            .join(' ');
+    };
+
+    /**
+     * describeTime
+     *
+     * Spell out the given total time for the duration preview, e.g. `1 hour 30 minutes`.
+     *
+     * @param {number} time Total time in seconds
+     * @memberof Add
+     * @since 1.1.0
+     */
+    describeTime = (time: number): string => {
+        const { hours, minutes, seconds } = this.splitTime(time);
+        const describe = (value: number, unit: string) => (value ? `${value} ${unit}${value === 1 ? '' : 's'}` : '');
+
+        return [describe(hours, 'hour'), describe(minutes, 'minute'), describe(seconds, 'second')]
+            .filter(part => part.length)
+            .join(' ');
+    };
+
+    /**
+     * getFieldsTime
+     *
+     * Calculate the total time entered into the separate hours, minutes and seconds fields.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    getFieldsTime = (): number => {
+        return this.calcTime(
+            parseInt(this.hoursRef.current?.inputRef.current?.value!),
+            parseInt(this.minutesRef.current?.inputRef.current?.value!),
+            parseInt(this.secondsRef.current?.inputRef.current?.value!)
+        );
+    };
+
+    /**
+     * getTargetTime
+     *
+     * Calculate the seconds left until the next occurrence of the given time of day.
+     * Times that already passed today are counted down to tomorrow.
+     *
+     * @param {string} target Time of day (`HH:MM`)
+     * @memberof Add
+     * @since 1.1.0
+     */
+    getTargetTime = (target: string): number => {
+        return Math.ceil((nextOccurrence(target, []) - Date.now()) / 1000);
+    };
+
+    /**
+     * buildPhases
+     *
+     * Create the ordered list of phases for a pomodoro style sequence.
+     * Each round is followed by a break, the last round by the long break.
+     *
+     * @param {number} work Minutes of work per round
+     * @param {number} shortBreak Minutes of break between rounds
+     * @param {number} longBreak Minutes of break after the last round
+     * @param {number} rounds Number of rounds
+     * @memberof Add
+     * @since 1.1.0
+     */
+    buildPhases = (work: number, shortBreak: number, longBreak: number, rounds: number): TimerPhase[] => {
+        const phases: TimerPhase[] = [];
+
+        // A sequence without work is no sequence at all.
+        if (!(work > 0)) return phases;
+
+        for (let round = 1; round <= rounds; round++) {
+            phases.push({ name: 'Work', round: round, time: work * 60 });
+
+            // Breaks without a length are skipped.
+            const breakTime = round < rounds ? shortBreak : longBreak;
+
+            if (breakTime > 0) {
+                phases.push({ name: round < rounds ? 'Break' : 'Long break', round: round, time: breakTime * 60 });
+            }
+        }
+
+        return phases;
+    };
+
+    /**
+     * splitPhases
+     *
+     * Read the work, break and long break minutes as well as the rounds from the given phases.
+     *
+     * @param {TimerPhase[]} [phases] The sequence phases
+     * @memberof Add
+     * @since 1.1.0
+     */
+    splitPhases = (
+        phases: TimerPhase[] = []
+    ): { work: number; shortBreak: number; longBreak: number; rounds: number } => {
+        const find = (name: string) => phases.find(phase => phase.name === name);
+        const minutes = (phase?: TimerPhase) => (phase ? Math.round(phase.time / 60) : 0);
+
+        return {
+            work: phases.length ? minutes(find('Work')) : 25,
+            shortBreak: phases.length ? minutes(find('Break')) : 5,
+            longBreak: phases.length ? minutes(find('Long break')) : 15,
+            rounds: phases.length ? phases[phases.length - 1].round : 4
+        };
+    };
+
+    /**
+     * saveGroup
+     *
+     * Resolve the selected group, creating a new group if requested.
+     *
+     * @return {*} {Promise<number | undefined>} The id of the group, `undefined` for no group
+     * @memberof Add
+     * @since 1.1.0
+     */
+    saveGroup = (): Promise<number | undefined> => {
+        const { group } = this.state;
+
+        if (group !== 'new') {
+            return Promise.resolve(group.length ? parseInt(group) : undefined);
+        }
+
+        // Create the new group.
+        const id = generateUUID();
+        const name = this.groupNameRef.current ? this.groupNameRef.current.value.trim() : '';
+
+        return this.groupStorage.set(id.toString(), { id: id, name: name }).then(() => id);
+    };
+
+    /**
+     * updateTimer
+     *
+     * Update the existing timer in storage with the given title, time, mode, phases, group, style and schedule.
+     *
+     * @param {TimerData} data The timer being edited
+     * @param {TimerSettings & Pick<TimerData, 'group' | 'schedule' | 'target'>} update The changed timer settings
+     * @memberof Add
+     * @since 1.1.0
+     */
+    updateTimer = (data: TimerData, update: TimerSettings & Pick<TimerData, 'group' | 'schedule' | 'target'>) => {
+        const key = data.id.toString();
+
+        // Read the latest stored record so we don't overwrite its run state with stale data.
+        this.storage.get(key).then(stored => {
+            const current = stored ? (stored as TimerData) : data;
+
+            // Keep the stored schedule unless it was changed, it may have moved on to its next start since.
+            const schedule = this.state.scheduleChanged ? update.schedule : current.schedule;
+
+            // Changing the duration, target, mode or phases resets the timer.
+            // The duration of a countdown to a time of day shrinks by the second, so only its target counts.
+            const unchanged =
+                (update.targetTime
+                    ? current.targetTime === update.targetTime
+                    : !current.targetTime && current.time === update.time) &&
+                (current.mode ? current.mode : 'countdown') === update.mode &&
+                JSON.stringify(current.phases) === JSON.stringify(update.phases);
+
+            const saveData: TimerData = unchanged
+                ? {
+                      ...current,
+                      title: update.title,
+                      group: update.group,
+                      repeat: update.repeat,
+                      accent: update.accent,
+                      icon: update.icon,
+                      sound: update.sound,
+                      schedule: schedule
+                  }
+                : {
+                      ...current,
+                      ...update,
+                      schedule: schedule,
+                      deadline: undefined,
+                      finished: false,
+                      paused: true,
+                      remaining: undefined,
+                      stopped: false,
+                      elapsed: undefined,
+                      laps: undefined,
+                      startTime: undefined,
+                      phase: undefined,
+                      rounds: undefined,
+                      waitUntil: undefined
+                  };
+
+            this.storage.set(key, saveData).then(() => {
+                // Return to the Landing slide und refresh the data.
+                this.props.onBack();
+                this.props.onRefresh();
+
+                // Show a Snackbar message to the user.
+                this.props.onMessage('Timer successfully updated');
+            });
+        });
+    };
+
+    /**
+     * getSettings
+     *
+     * Read the timer settings from the form.
+     * Triggers the error state if the settings are invalid.
+     *
+     * @return {*} {(TimerSettings | null)} The settings, or `null` if they are invalid
+     * @memberof Add
+     * @since 1.1.0
+     */
+    getSettings = (): TimerSettings | null => {
+        // Get the refs for our inputs.
+        const title = this.titleRef.current?.value;
+
+        const { accent, entry, icon, mode, sound } = this.state;
+        let errorMessage = 'The timer needs a duration';
+        let phases: TimerPhase[] | undefined;
+        let targetTime: string | undefined;
+        let time: number;
+
+        if (mode === 'sequence') {
+            // Build the phases and use their total as the time.
+            phases = this.buildPhases(
+                parseInt(this.workRef.current?.inputRef.current?.value!),
+                parseInt(this.breakRef.current?.inputRef.current?.value!),
+                parseInt(this.longBreakRef.current?.inputRef.current?.value!),
+                parseInt(this.roundsRef.current?.inputRef.current?.value!)
+            );
+            time = phases.reduce((total, phase) => total + phase.time, 0);
+        } else if (mode === 'stopwatch') {
+            // Stopwatches count up from zero, so they don't need a duration.
+            time = 0;
+        } else if (entry === 'quick') {
+            const duration = this.durationRef.current ? this.durationRef.current.value : '';
+
+            // Parse the typed duration.
+            time = NaN;
+
+            if (duration.trim().length) {
+                errorMessage = 'Try a duration like 1h30m, 90s or 1:15:00';
+            }
+
+            const parsed = parseDuration(duration);
+
+            if (parsed) {
+                time = parsed;
+            }
+        } else if (entry === 'target') {
+            const value = this.targetRef.current ? this.targetRef.current.value : '';
+
+            // Use the time left until the target as the duration.
+            time = NaN;
+            errorMessage = 'Pick a time to count down to';
+
+            if (/^\d{2}:\d{2}$/.test(value)) {
+                targetTime = value;
+                time = this.getTargetTime(value);
+            }
+        } else {
+            // Calculate the total time.
+            time = this.getFieldsTime();
+        }
+
+        // We make sure we actually have more than 0 seconds for the timer.
+        if (mode !== 'stopwatch' && (isNaN(time) || time <= 0)) {
+            // If no time is entered, trigger the error state.
+            this.setState({
+                error: true,
+                errorMessage: errorMessage
+            });
+            return null;
+        }
+
+        const repeat = this.getRepeat();
+
+        if (repeat === null) return null;
+
+        return {
+            title: title ? title : '',
+            time: time,
+            mode: mode,
+            phases: phases,
+            targetTime: targetTime,
+            repeat: repeat,
+            accent: accent ? accent : undefined,
+            icon: icon ? icon : undefined,
+            sound: sound
+        };
+    };
+
+    /**
+     * getRepeat
+     *
+     * Read the repeat setting from the form, only plain countdowns repeat.
+     * Triggers the error state if the setting is invalid.
+     *
+     * @return {*} {(TimerRepeat | undefined | null)} The setting, `undefined` for none or `null` if it is invalid
+     * @memberof Add
+     * @since 1.1.0
+     */
+    getRepeat = (): TimerRepeat | undefined | null => {
+        const { entry, mode, repeat } = this.state;
+
+        if (!repeat || mode !== 'countdown' || entry === 'target') return undefined;
+
+        const count = this.repeatCountRef.current ? parseInt(this.repeatCountRef.current.value) : NaN;
+        const delay = this.repeatDelayRef.current ? this.repeatDelayRef.current.value : '';
+
+        if (repeat === 'count' && !(count >= 2)) {
+            this.setState({
+                error: true,
+                errorMessage: 'Repeat the timer at least 2 times'
+            });
+            return null;
+        }
+
+        // The break is optional.
+        const breakTime = delay.trim().length ? parseDuration(delay) : 0;
+
+        if (breakTime === null) {
+            this.setState({
+                error: true,
+                errorMessage: 'Try a break like 30s or 5m'
+            });
+            return null;
+        }
+
+        return {
+            count: repeat === 'count' ? count : undefined,
+            delay: breakTime ? breakTime : undefined
+        };
+    };
+
+    /**
+     * getSchedule
+     *
+     * Read the scheduled start from the form.
+     * Triggers the error state if the schedule is invalid.
+     * The schedule of the timer we are editing stays as it is unless its inputs were changed.
+     *
+     * @return {*} {(TimerSchedule | undefined | null)} The schedule, `undefined` for none or `null` if it is invalid
+     * @memberof Add
+     * @since 1.1.0
+     */
+    getSchedule = (): TimerSchedule | undefined | null => {
+        const { schedule, scheduleChanged, scheduleDays } = this.state;
+
+        // The prefilled time has no seconds and may have passed, so rebuilding the schedule would move it.
+        if (this.props.data && !scheduleChanged) {
+            return this.props.data.schedule;
+        }
+
+        if (schedule === 'in') {
+            const delay = parseDuration(this.scheduleDelayRef.current ? this.scheduleDelayRef.current.value : '');
+
+            if (!delay) {
+                this.setState({
+                    error: true,
+                    errorMessage: 'Try a delay like 20m or 1h'
+                });
+                return null;
+            }
+
+            return { at: Date.now() + delay * 1000 };
+        }
+
+        if (schedule === 'at') {
+            const time = this.scheduleTimeRef.current ? this.scheduleTimeRef.current.value : '';
+
+            if (!/^\d{2}:\d{2}$/.test(time)) {
+                this.setState({
+                    error: true,
+                    errorMessage: 'Pick a time to start the timer'
+                });
+                return null;
+            }
+
+            // Without weekdays the timer only starts once, at the next occurrence of the time.
+            const at = nextOccurrence(time, scheduleDays);
+
+            return scheduleDays.length ? { at: at, time: time, days: scheduleDays } : { at: at };
+        }
+
+        return undefined;
+    };
 
     /**
      * saveTimer
@@ -99,25 +590,48 @@ export default class Add extends React.Component<AddProps, AddState> {
      * @since 1.0.0
      */
     saveTimer = () => {
-        // Get the refs for our inputs.
-        const title = this.titleRef.current?.value;
-        const hours = parseInt(this.hoursRef.current?.inputRef.current?.value!);
-        const minutes = parseInt(this.minutesRef.current?.inputRef.current?.value!);
-        const seconds = parseInt(this.secondsRef.current?.inputRef.current?.value!);
+        // A new group needs a name.
+        if (this.state.group === 'new' && !(this.groupNameRef.current && this.groupNameRef.current.value.trim())) {
+            this.setState({
+                error: true,
+                errorMessage: 'The new group needs a name'
+            });
+            return;
+        }
 
-        // Calculate the total time.
-        const time = this.calcTime(hours, minutes, seconds);
+        const settings = this.getSettings();
+
+        if (!settings) return;
+
+        const schedule = this.getSchedule();
+
+        if (schedule === null) return;
+
+        // Countdowns to a time of day run until its next occurrence.
+        const target = settings.targetTime ? nextOccurrence(settings.targetTime, []) : undefined;
+
+        this.saveGroup().then(async group => {
+            // Update the existing timer if we are editing one.
+            if (this.props.data) {
+                this.updateTimer(this.props.data, { ...settings, group: group, schedule: schedule, target: target });
+                return;
+            }
 
-        // We make sure we actually have more than 0 seconds for the timer.
-        if (!isNaN(time) && time > 0) {
             // Generate a unique id.
-            const id = this.generateUUID();
+            const id = generateUUID();
+
+            // New timers are added after the existing ones.
+            const order = await nextTimerOrder(this.storage);
 
             // Prepare the data.
             const saveData: TimerData = {
                 id: id,
-                time: time,
-                title: title ? title : '',
+                ...settings,
+                group: group,
+                schedule: schedule,
+                target: target,
+                order: order,
+                version: SCHEMA_VERSION
             };
 
             // Save it to localStorage.
@@ -129,17 +643,82 @@ export default class Add extends React.Component<AddProps, AddState> {
                 // Show a Snackbar message to the user.
                 this.props.onMessage('Timer successfully added');
             });
-        } else {
-            // If no time is entered, trigger the error state.
+        });
+    };
+
+    /**
+     * saveTemplate
+     *
+     * Save the timer settings as a template, so they can be reused with one click.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    saveTemplate = () => {
+        const settings = this.getSettings();
+
+        if (!settings) return;
+
+        // Templates are picked by their title.
+        if (!settings.title) {
             this.setState({
                 error: true,
-            })
+                errorMessage: 'The template needs a title'
+            });
+            return;
         }
-    }
+
+        this.presets.save({ ...settings, title: settings.title }).then(() => {
+            // Refresh the presets.
+            this.props.onRefresh();
+
+            // Show a Snackbar message to the user.
+            this.props.onMessage('Template successfully saved');
+        });
+    };
+
+    /**
+     * addPreset
+     *
+     * Create a timer from the given preset and return to the Landing slide.
+     *
+     * @param {TimerPreset} preset The preset to use
+     * @memberof Add
+     * @since 1.1.0
+     */
+    addPreset = (preset: TimerPreset) => {
+        this.presets.createTimer(preset).then(() => {
+            // Return to the Landing slide und refresh the data.
+            this.props.onBack();
+            this.props.onRefresh();
+
+            // Show a Snackbar message to the user.
+            this.props.onMessage(`${preset.title} timer successfully added`);
+        });
+    };
+
+    /**
+     * removePreset
+     *
+     * Remove the given template.
+     *
+     * @param {TimerPreset} preset The template to remove
+     * @memberof Add
+     * @since 1.1.0
+     */
+    removePreset = (preset: TimerPreset) => {
+        this.presets.delete(preset).then(() => {
+            // Refresh the presets.
+            this.props.onRefresh();
+
+            // Show a Snackbar message to the user.
+            this.props.onMessage('Template successfully removed');
+        });
+    };
 
     /**
      * handleChange
-     * 
+     *
      * Will remove the error state when any input changes into a positive value.
      *
      * @param {string} value The input value
@@ -149,12 +728,288 @@ export default class Add extends React.Component<AddProps, AddState> {
     handleChange = (value: string) => {
         if (parseInt(value) > 0) {
             this.setState({
+                error: false
+            });
+        }
+    };
+
+    /**
+     * handleDurationChange
+     *
+     * Preview the typed duration and remove the error state once it is valid.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    handleDurationChange = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = $event.target.value;
+        const time = parseDuration(value);
+
+        this.setState({
+            error: time ? false : this.state.error,
+            preview: time ? this.describeTime(time) : value.trim().length ? 'Not a valid duration yet' : ''
+        });
+    };
+
+    /**
+     * handleTargetChange
+     *
+     * Preview the time left until the picked time of day and remove the error state.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    handleTargetChange = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = $event.target.value;
+
+        this.setState({
+            error: value ? false : this.state.error,
+            preview: value ? this.describeTarget(value) : ''
+        });
+    };
+
+    /**
+     * describeTarget
+     *
+     * Describe when the countdown to the given time of day ends, e.g. `Ends in 2 hours 15 minutes`.
+     *
+     * @param {string} target Time of day (`HH:MM`)
+     * @memberof Add
+     * @since 1.1.0
+     */
+    describeTarget = (target: string): string => {
+        const time = this.getTargetTime(target);
+
+        // Round to whole minutes, the seconds only add noise here.
+        return `Ends in ${this.describeTime(Math.max(60, Math.round(time / 60) * 60))}`;
+    };
+
+    /**
+     * toggleEntry
+     *
+     * Switch between the quick entry field and the separate hours, minutes and seconds fields.
+     * The duration entered so far is carried over, a time of day switches back to the quick entry.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    toggleEntry = () => {
+        // Leave the time of day behind and start over with the quick entry.
+        if (this.state.entry === 'target') {
+            this.setState({
+                entry: 'quick',
                 error: false,
+                preview: ''
             });
+            return;
         }
-    }
+
+        const quick = this.state.entry === 'quick';
+
+        const time = quick
+            ? parseDuration(this.durationRef.current ? this.durationRef.current.value : '')
+            : this.getFieldsTime();
+
+        this.setState({
+            entry: quick ? 'fields' : 'quick',
+            error: false,
+            preview: time ? this.describeTime(time) : '',
+            time: time ? time : 0
+        });
+    };
+
+    /**
+     * toggleTarget
+     *
+     * Switch to counting down to a time of day.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    toggleTarget = () => {
+        this.setState({
+            entry: 'target',
+            error: false,
+            preview: ''
+        });
+    };
+
+    /**
+     * setGroup
+     *
+     * Select the group for the timer.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setGroup = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            error: false,
+            group: $event.target.value
+        });
+    };
+
+    /**
+     * setAccent
+     *
+     * Select the accent color of the timer, an empty string uses the app accent.
+     *
+     * @param {string} accent The desired accent color
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setAccent = (accent: string) => {
+        this.setState({
+            accent: accent
+        });
+    };
+
+    /**
+     * setIcon
+     *
+     * Select the icon of the timer, an empty string shows no icon.
+     *
+     * @param {string} icon The id of the desired icon
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setIcon = (icon: string) => {
+        this.setState({
+            icon: icon
+        });
+    };
+
+    /**
+     * setSound
+     *
+     * Select the alarm sound of the timer and play a short preview.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setSound = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        const sound = $event.target.value as AlarmSound;
+
+        this.setState({
+            sound: sound
+        });
+
+        this.previewSound(sound);
+    };
+
+    /**
+     * previewSound
+     *
+     * Play the given alarm sound briefly.
+     *
+     * @param {AlarmSound} sound The sound to play
+     * @memberof Add
+     * @since 1.1.0
+     */
+    previewSound = (sound: AlarmSound) => {
+        this.alarm.play(1500, sound);
+    };
+
+    /**
+     * setRepeat
+     *
+     * Select whether the countdown repeats a number of times, forever or not at all.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setRepeat = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            error: false,
+            repeat: $event.target.value as AddState['repeat']
+        });
+    };
+
+    /**
+     * setSchedule
+     *
+     * Select whether the timer starts manually, at a set time or after a delay.
+     *
+     * @param {React.ChangeEvent<HTMLSelectElement>} $event
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setSchedule = ($event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({
+            error: false,
+            schedule: $event.target.value as AddState['schedule'],
+            scheduleChanged: true
+        });
+    };
+
+    /**
+     * changeSchedule
+     *
+     * Remember that the scheduled start time or delay was changed, so it is saved anew.
+     *
+     * @memberof Add
+     * @since 1.1.0
+     */
+    changeSchedule = () => {
+        this.setState({
+            error: false,
+            scheduleChanged: true
+        });
+    };
+
+    /**
+     * toggleDay
+     *
+     * Add or remove the given weekday from the days the scheduled start repeats on.
+     *
+     * @param {number} day The weekday, 0 is Sunday
+     * @memberof Add
+     * @since 1.1.0
+     */
+    toggleDay = (day: number) => {
+        const { scheduleDays } = this.state;
+
+        this.setState({
+            scheduleChanged: true,
+            scheduleDays: scheduleDays.includes(day)
+                ? scheduleDays.filter(value => value !== day)
+                : [...scheduleDays, day].sort((a, b) => a - b)
+        });
+    };
+
+    /**
+     * setMode
+     *
+     * Switch between a countdown, a stopwatch that counts up and a pomodoro sequence.
+     *
+     * @param {TimerMode} mode The desired timer mode
+     * @memberof Add
+     * @since 1.1.0
+     */
+    setMode = (mode: TimerMode) => {
+        this.setState({
+            error: false,
+            mode: mode
+        });
+    };
 
     render() {
+        const { data } = this.props;
+        const { entry, mode, repeat, schedule, scheduleDays, time } = this.state;
+        const { hours, minutes, seconds } = this.splitTime(time);
+        const { work, shortBreak, longBreak, rounds } = this.splitPhases(data && data.phases ? data.phases : undefined);
+        const scheduledTime =
+            data && data.schedule
+                ? data.schedule.time
+                    ? data.schedule.time
+                    : new Date(data.schedule.at).toTimeString().slice(0, 5)
+                : undefined;
+
         return (
             <div className="mdf-slide">
                 <header className="mdf-slide__header">
@@ -172,50 +1027,405 @@ export default class Add extends React.Component<AddProps, AddState> {
                     </div>
 
                     <h2 className="mdf-slide__title">
-                        Add your <span> </span>
+                        {data ? 'Edit' : 'Add'} your <span> </span>
                         <strong>timer.</strong>
                     </h2>
                 </header>
 
                 <main className="mdf-slide__main">
                     <div className="mdf-slide__content">
-                        <div className={`mdf-error ${this.state.error ? 'mdf-error--active' : ''}`} aria-hidden={this.state.error ? undefined : true}>
+                        <div
+                            className={`mdf-error ${this.state.error ? 'mdf-error--active' : ''}`}
+                            aria-hidden={this.state.error ? undefined : true}
+                        >
                             <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
                                 <use href={`${Icons}#error`}></use>
                             </svg>
 
                             <span className="mdf-error__message" aria-live="polite">
-                                {this.state.error ? 'The timer needs a duration' : ''}
+                                {this.state.error ? this.state.errorMessage : ''}
                             </span>
                         </div>
 
+                        {!data && this.props.presets && this.props.presets.length > 0 && (
+                            <div id="timer-presets">
+                                <Presets
+                                    label="Timer presets"
+                                    presets={this.props.presets}
+                                    onSelect={this.addPreset}
+                                    onRemove={this.removePreset}
+                                />
+                            </div>
+                        )}
+
                         <input
                             ref={this.titleRef}
                             id="title-input"
                             type="text"
                             name="title"
                             placeholder="Enter timer title (optional)"
+                            defaultValue={data ? data.title : undefined}
                         />
 
-                        <div id="timer-inputs" className="mdf-group">
-                            <Input ref={this.hoursRef} name={'hours'} min={0} max={24} onChange={this.handleChange} />
-                            <Input ref={this.minutesRef} name={'minutes'} min={0} max={60} onChange={this.handleChange} />
-                            <Input ref={this.secondsRef} name={'seconds'} min={0} max={60} required={true} onChange={this.handleChange} />
+                        <div id="timer-group">
+                            <select
+                                id="group-select"
+                                aria-label="Group"
+                                value={this.state.group}
+                                onChange={$event => this.setGroup($event)}
+                            >
+                                <option value="">No group</option>
+                                {(this.props.groups ? this.props.groups : []).map(group => (
+                                    <option key={group.id} value={group.id}>
+                                        {group.name}
+                                    </option>
+                                ))}
+                                <option value="new">New group&hellip;</option>
+                            </select>
+
+                            {this.state.group === 'new' && (
+                                <input
+                                    ref={this.groupNameRef}
+                                    id="group-input"
+                                    type="text"
+                                    name="group"
+                                    placeholder="Enter group name"
+                                    aria-label="Group name"
+                                />
+                            )}
+                        </div>
+
+                        <div id="timer-style">
+                            <div id="accent-picker" className="mdf-picker" role="radiogroup" aria-label="Color">
+                                {['', ...this.preferences.accents].map(accent => (
+                                    <button
+                                        key={accent}
+                                        className={`mdf-swatch mdf-swatch--${accent ? accent : 'default'} ${
+                                            this.state.accent === accent ? 'mdf-swatch--active' : ''
+                                        }`}
+                                        role="radio"
+                                        aria-checked={this.state.accent === accent}
+                                        aria-label={accent ? accent.replace('-', ' ') : 'App color'}
+                                        onClick={() => this.setAccent(accent)}
+                                    />
+                                ))}
+                            </div>
+
+                            <div id="icon-picker" className="mdf-picker" role="radiogroup" aria-label="Icon">
+                                {['', ...this.preferences.icons].map(icon => (
+                                    <button
+                                        key={icon}
+                                        className={`mdf-button mdf-button--icon ${
+                                            this.state.icon === icon ? 'mdf-button--filled' : ''
+                                        }`}
+                                        role="radio"
+                                        aria-checked={this.state.icon === icon}
+                                        aria-label={icon ? icon : 'No icon'}
+                                        onClick={() => this.setIcon(icon)}
+                                    >
+                                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                            <use href={`${Icons}#${icon ? icon : 'block'}`} />
+                                        </svg>
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div id="sound-picker">
+                                <select
+                                    id="sound-select"
+                                    aria-label="Alarm sound"
+                                    value={this.state.sound}
+                                    onChange={$event => this.setSound($event)}
+                                >
+                                    {(Object.keys(AlarmManager.sounds) as AlarmSound[]).map(sound => (
+                                        <option key={sound} value={sound}>
+                                            {AlarmManager.sounds[sound].label}
+                                        </option>
+                                    ))}
+                                </select>
+
+                                <button
+                                    className="mdf-button mdf-button--icon"
+                                    aria-label="Play alarm sound"
+                                    disabled={this.state.sound === 'silent'}
+                                    onClick={() => this.previewSound(this.state.sound)}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#volume-up`} />
+                                    </svg>
+                                </button>
+                            </div>
+                        </div>
+
+                        <div id="timer-schedule">
+                            <select
+                                id="schedule-select"
+                                aria-label="Start"
+                                value={schedule}
+                                onChange={$event => this.setSchedule($event)}
+                            >
+                                <option value="">Start manually</option>
+                                <option value="at">Start at a set time</option>
+                                <option value="in">Start after a delay</option>
+                            </select>
+
+                            {schedule === 'at' && (
+                                <input
+                                    ref={this.scheduleTimeRef}
+                                    id="schedule-time"
+                                    type="time"
+                                    name="schedule-time"
+                                    aria-label="Start time"
+                                    defaultValue={scheduledTime}
+                                    onChange={this.changeSchedule}
+                                />
+                            )}
+
+                            {schedule === 'in' && (
+                                <input
+                                    ref={this.scheduleDelayRef}
+                                    id="schedule-delay"
+                                    type="text"
+                                    name="schedule-delay"
+                                    placeholder="Enter delay, e.g. 20m or 1h"
+                                    aria-label="Start delay"
+                                    onChange={this.changeSchedule}
+                                />
+                            )}
+                        </div>
+
+                        {schedule === 'at' && (
+                            <div id="schedule-days" className="mdf-picker" role="group" aria-label="Repeat on">
+                                {this.weekdays.map(weekday => (
+                                    <button
+                                        key={weekday.day}
+                                        className={`mdf-button mdf-button--icon ${
+                                            scheduleDays.includes(weekday.day) ? 'mdf-button--filled' : ''
+                                        }`}
+                                        aria-pressed={scheduleDays.includes(weekday.day)}
+                                        aria-label={weekday.label}
+                                        onClick={() => this.toggleDay(weekday.day)}
+                                    >
+                                        {weekday.label.charAt(0)}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        <div id="timer-mode" role="radiogroup" aria-label="Timer type">
+                            {this.modes.map(option => (
+                                <button
+                                    key={option.mode}
+                                    className={`mdf-button ${mode === option.mode ? 'mdf-button--filled' : ''}`}
+                                    role="radio"
+                                    aria-checked={mode === option.mode}
+                                    onClick={() => this.setMode(option.mode)}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
                         </div>
+
+                        {mode === 'sequence' && (
+                            <div id="sequence-inputs" className="mdf-group">
+                                <Input
+                                    ref={this.workRef}
+                                    name={'work'}
+                                    min={0}
+                                    max={99}
+                                    defaultValue={work}
+                                    onChange={this.handleChange}
+                                />
+                                <Input
+                                    ref={this.breakRef}
+                                    name={'break'}
+                                    min={0}
+                                    max={99}
+                                    defaultValue={shortBreak}
+                                    onChange={this.handleChange}
+                                />
+                                <Input
+                                    ref={this.longBreakRef}
+                                    name={'long-break'}
+                                    label={'long break'}
+                                    min={0}
+                                    max={99}
+                                    defaultValue={longBreak}
+                                    onChange={this.handleChange}
+                                />
+                                <Input
+                                    ref={this.roundsRef}
+                                    name={'rounds'}
+                                    min={1}
+                                    max={12}
+                                    defaultValue={rounds}
+                                    onChange={this.handleChange}
+                                />
+                            </div>
+                        )}
+
+                        {mode === 'countdown' && entry === 'quick' && (
+                            <div id="duration-entry" className="mdf-group">
+                                <input
+                                    ref={this.durationRef}
+                                    id="duration-input"
+                                    type="text"
+                                    name="duration"
+                                    placeholder="Enter duration, e.g. 1h30m, 90s or 1:15:00"
+                                    aria-label="Duration"
+                                    aria-describedby="duration-preview"
+                                    defaultValue={time ? this.formatTime(time) : undefined}
+                                    onChange={$event => this.handleDurationChange($event)}
+                                />
+
+                                <p id="duration-preview" aria-live="polite">
+                                    {this.state.preview}
+                                </p>
+                            </div>
+                        )}
+
+                        {mode === 'countdown' && entry === 'fields' && (
+                            <div id="timer-inputs" className="mdf-group">
+                                <Input
+                                    ref={this.hoursRef}
+                                    name={'hours'}
+                                    min={0}
+                                    max={24}
+                                    defaultValue={time ? hours : undefined}
+                                    onChange={this.handleChange}
+                                />
+                                <Input
+                                    ref={this.minutesRef}
+                                    name={'minutes'}
+                                    min={0}
+                                    max={60}
+                                    defaultValue={time ? minutes : undefined}
+                                    onChange={this.handleChange}
+                                />
+                                <Input
+                                    ref={this.secondsRef}
+                                    name={'seconds'}
+                                    min={0}
+                                    max={60}
+                                    required={true}
+                                    defaultValue={time ? seconds : undefined}
+                                    onChange={this.handleChange}
+                                />
+                            </div>
+                        )}
+
+                        {mode === 'countdown' && entry === 'target' && (
+                            <div id="target-entry" className="mdf-group">
+                                <input
+                                    ref={this.targetRef}
+                                    id="target-input"
+                                    type="time"
+                                    name="target"
+                                    aria-label="Count down to"
+                                    aria-describedby="target-preview"
+                                    defaultValue={data && data.targetTime ? data.targetTime : undefined}
+                                    onChange={$event => this.handleTargetChange($event)}
+                                />
+
+                                <p id="target-preview" aria-live="polite">
+                                    {this.state.preview}
+                                </p>
+                            </div>
+                        )}
+
+                        {mode === 'countdown' && (
+                            <div id="entry-toggles">
+                                <button id="toggle-entry" className="mdf-button" onClick={this.toggleEntry}>
+                                    {entry === 'quick' ? 'Use separate fields' : 'Use quick entry'}
+                                </button>
+
+                                {entry !== 'target' && (
+                                    <button id="toggle-target" className="mdf-button" onClick={this.toggleTarget}>
+                                        Count down to a time
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {mode === 'countdown' && entry !== 'target' && (
+                            <div id="timer-repeat">
+                                <select
+                                    id="repeat-select"
+                                    aria-label="Repeat"
+                                    value={repeat}
+                                    onChange={$event => this.setRepeat($event)}
+                                >
+                                    <option value="">Don't repeat</option>
+                                    <option value="count">Repeat a number of times</option>
+                                    <option value="forever">Repeat forever</option>
+                                </select>
+
+                                {repeat === 'count' && (
+                                    <input
+                                        ref={this.repeatCountRef}
+                                        id="repeat-count"
+                                        type="number"
+                                        name="repeat-count"
+                                        min={2}
+                                        max={99}
+                                        aria-label="Number of rounds"
+                                        placeholder="Rounds"
+                                        defaultValue={data && data.repeat && data.repeat.count ? data.repeat.count : 3}
+                                    />
+                                )}
+
+                                {repeat && (
+                                    <input
+                                        ref={this.repeatDelayRef}
+                                        id="repeat-delay"
+                                        type="text"
+                                        name="repeat-delay"
+                                        placeholder="Break between rounds, e.g. 30s (optional)"
+                                        aria-label="Break between rounds"
+                                        defaultValue={
+                                            data && data.repeat && data.repeat.delay
+                                                ? this.formatTime(data.repeat.delay)
+                                                : undefined
+                                        }
+                                    />
+                                )}
+                            </div>
+                        )}
                     </div>
                 </main>
 
                 <footer className="mdf-slide__footer">
-                    <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.saveTimer}>Save timer</button>
+                    <button className="mdf-button mdf-button--large" onClick={this.saveTemplate}>
+                        Save as template
+                    </button>
+                    <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.saveTimer}>
+                        {data ? 'Update timer' : 'Save timer'}
+                    </button>
                 </footer>
             </div>
         );
     }
 
     componentDidMount() {
+        // Preview the duration or target of the timer we are editing.
+        if (this.state.time) {
+            this.setState({
+                preview: this.describeTime(this.state.time)
+            });
+        } else if (this.props.data && this.props.data.targetTime) {
+            this.setState({
+                preview: this.describeTarget(this.props.data.targetTime)
+            });
+        }
+
         // Focus the title input after the slide is ready.
         setTimeout(() => {
             this.titleRef.current?.focus();
         }, 360);
     }
+
+    componentWillUnmount() {
+        // Make sure the sound preview doesn't outlive the form.
+        this.alarm.stop();
+    }
 }
@@ -3,6 +3,8 @@ import React from 'react';
 import './Input.scoped.scss';
 
 interface InputProps {
+    defaultValue?: number;
+    label?: string;
     max: number;
     min: number;
     name: string;
@@ -14,6 +16,7 @@ interface InputProps {
  * Input
  *
  * Display the timer number input for hours, minutes or seconds.
+ * Also used for the phase lengths and rounds of sequence timers.
  *
  * @export
  * @class Input
@@ -71,7 +74,7 @@ export default class Input extends React.Component<InputProps> {
     };
 
     render() {
-        const { max, min, name, required } = this.props;
+        const { defaultValue, label, max, min, name, required } = this.props;
 
         return (
             <div className="mdf-timer-input">
@@ -85,12 +88,13 @@ export default class Input extends React.Component<InputProps> {
                     max={max}
                     step="1"
                     placeholder="00"
+                    defaultValue={defaultValue}
                     onKeyPress={$event => this.handleKeyPress($event)}
                     onChange={$event => this.handleChange($event)}
                     required={required}
                 />
-                <label htmlFor="hours" className="mdf-timer-input__label">
-                    {name}
+                <label htmlFor={name} className="mdf-timer-input__label">
+                    {label ? label : name}
                 </label>
             </div>
         );
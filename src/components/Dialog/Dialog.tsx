@@ -6,7 +6,10 @@ import './Dialog.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface DialogProps {
+    children?: React.ReactNode;
+    confirmLabel?: string;
     description: string;
+    hideCancel?: boolean;
     keyboard?: boolean;
     title: string;
     onCancel?: () => void;
@@ -30,6 +33,7 @@ const SELECTOR = {
  *
  * Displays a modal dialog window the user.
  * The dialog has a title, description and offers two actions: `cancel` and `confirm`.
+ * Additional content can be passed as children, informational dialogs may hide the `cancel` action.
  *
  * @export
  * @class Dialog
@@ -259,15 +263,18 @@ export default class Dialog extends React.Component<DialogProps> {
 
                     <div className="mdf-dialog__content">
                         <p id="dialog-desc">{this.props.description}</p>
+                        {this.props.children}
                     </div>
 
                     <div className="mdf-dialog__actions">
-                        <button className="mdf-button" onClick={this.cancel}>
-                            Cancel
-                        </button>
+                        {!this.props.hideCancel && (
+                            <button className="mdf-button" onClick={this.cancel}>
+                                Cancel
+                            </button>
+                        )}
 
                         <button className="mdf-button" onClick={this.confirm}>
-                            Confirm
+                            {this.props.confirmLabel ? this.props.confirmLabel : 'Confirm'}
                         </button>
                     </div>
                 </div>
@@ -1,24 +1,37 @@
 import React from 'react';
 import Dialog from '../Dialog/Dialog';
+import PresetManager from '../../preset.manager';
 import Storage from '../../storage';
-import { TimerData } from '../../types';
+import TimerManager from '../../timer.manager';
+import { TimerData, TimerGroup, TimerPreset } from '../../types';
 
 import './Landing.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
+import Presets from '../Presets/Presets';
 import Timer from '../Timer/Timer';
 
 interface LandingProps {
     data: TimerData[];
+    groups: TimerGroup[];
+    presets: TimerPreset[];
+    controller: TimerManager;
+    running: number[];
     receiveFocus?: boolean;
     onRefresh: () => void;
     onMessage: (message: string) => void;
-    onSlideChange: (name: string) => void;
+    onSlideChange: (name: string, data?: TimerData) => void;
 }
 
 interface LandingState {
     dialogActive: boolean;
+    dialogGroup: TimerGroup | null;
     dialogId: number;
+    dialogSelected: boolean;
     dialogUseKeyboard: boolean;
+    dragId: number | null;
+    dropId: number | null;
+    selected: number[];
+    selecting: boolean;
 }
 
 /**
@@ -26,6 +39,7 @@ interface LandingState {
  *
  * First slide visible when opening the app.
  * Shows either a welcome message or the currently available timers.
+ * All timers can be started, paused or stopped at once, selected timers can also be removed together.
  *
  * @export
  * @class Landing
@@ -33,10 +47,23 @@ interface LandingState {
  * @version 1.0.0
  */
 export default class Landing extends React.Component<LandingProps, LandingState> {
+    focusId: number | null = null; // Id of the moved timer that gets the focus back after the refresh.
+    groupStorage = new Storage('group'); // Storage wrapper to handle the timer groups.
+    presets = new PresetManager(); // Creates timers from presets.
     storage = new Storage('timer'); // localStorage wrapper to handle timer data.
     title = 'Countdown.'; // Slide title.
 
-    state = { dialogActive: false, dialogId: 0, dialogUseKeyboard: false };
+    state: LandingState = {
+        dialogActive: false,
+        dialogGroup: null,
+        dialogId: 0,
+        dialogSelected: false,
+        dialogUseKeyboard: false,
+        dragId: null,
+        dropId: null,
+        selected: [],
+        selecting: false
+    };
 
     /**
      * openPreferences
@@ -50,6 +77,18 @@ export default class Landing extends React.Component<LandingProps, LandingState>
         this.props.onSlideChange('preferences');
     };
 
+    /**
+     * openStats
+     *
+     * Request the Stats slide.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openStats = () => {
+        this.props.onSlideChange('stats');
+    };
+
     /**
      * openAdd
      *
@@ -62,6 +101,19 @@ export default class Landing extends React.Component<LandingProps, LandingState>
         this.props.onSlideChange('add');
     };
 
+    /**
+     * openEdit
+     *
+     * Request the Edit slide for the given timer.
+     *
+     * @param {TimerData} data The timer to edit
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openEdit = (data: TimerData) => {
+        this.props.onSlideChange('edit', data);
+    };
+
     /**
      * openDialog
      *
@@ -101,10 +153,250 @@ export default class Landing extends React.Component<LandingProps, LandingState>
         }
     };
 
+    /**
+     * moveTimer
+     *
+     * Move the given timer to a new position and save the order of all timers.
+     * Optionally moves the timer into another group at the same time.
+     *
+     * @param {number} id The id of the timer to move
+     * @param {number} index The new position of the timer
+     * @param {number | null} [group] The id of the group to move the timer into, `null` to remove it from its group
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    moveTimer = (id: number, index: number, group?: number | null) => {
+        const timers = [...this.props.data];
+        const from = timers.findIndex(data => data.id === id);
+
+        // Stay within the list.
+        if (from < 0 || index < 0 || index >= timers.length) return;
+
+        // Check whether the timer changes its group.
+        const newGroup = group === null ? undefined : group;
+        const regroup = group !== undefined && newGroup !== timers[from].group;
+
+        // Only continue if the position or the group changes.
+        if (index === from && !regroup) return;
+
+        // Move the timer to its new position.
+        const [timer] = timers.splice(from, 1);
+        timers.splice(index, 0, timer);
+
+        // Save the position of each timer that moved, and the group of the moved timer.
+        const saves = timers.map((data, order) => {
+            if (data.order === order && !(regroup && data.id === id)) return Promise.resolve();
+
+            return this.storage.get(data.id.toString()).then(stored => {
+                // Skip timers that were removed in the meantime.
+                if (stored) {
+                    return this.storage.set(data.id.toString(), {
+                        ...(stored as TimerData),
+                        order: order,
+                        group: regroup && data.id === id ? newGroup : (stored as TimerData).group
+                    });
+                }
+            });
+        });
+
+        Promise.all(saves).then(() => {
+            // Keep the focus on the moved timer.
+            this.focusId = id;
+
+            // Refresh the Landing data.
+            this.props.onRefresh();
+        });
+    };
+
+    /**
+     * keyboardMove
+     *
+     * Move the given timer by the given offset within its section and announce its new position.
+     *
+     * @param {TimerData} data The timer to move
+     * @param {number} offset Number of positions to move, negative values move it towards the start
+     * @param {TimerData[]} list The timers of the same section
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    keyboardMove = (data: TimerData, offset: number, list: TimerData[]) => {
+        const index = list.findIndex(timer => timer.id === data.id) + offset;
+
+        if (index < 0 || index >= list.length) return;
+
+        // Take the place of the timer we move past.
+        this.moveTimer(
+            data.id,
+            this.props.data.findIndex(timer => timer.id === list[index].id)
+        );
+        this.props.onMessage(`Moved ${data.title ? data.title : 'Untitled'} to position ${index + 1}`);
+    };
+
+    /**
+     * dropTimer
+     *
+     * Move the dragged timer to the position and group of the given timer.
+     *
+     * @param {TimerData} target The timer it was dropped on
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    dropTimer = (target: TimerData) => {
+        const groupIds = this.props.groups.map(group => group.id);
+        // Dropping on an ungrouped timer removes the dragged timer from its group.
+        const group = target.group !== undefined && groupIds.includes(target.group) ? target.group : null;
+
+        if (this.state.dragId !== null) {
+            this.moveTimer(
+                this.state.dragId,
+                this.props.data.findIndex(data => data.id === target.id),
+                group
+            );
+        }
+
+        this.endDrag();
+    };
+
+    /**
+     * endDrag
+     *
+     * Reset the drag state.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    endDrag = () => {
+        this.setState({
+            dragId: null,
+            dropId: null
+        });
+    };
+
+    /**
+     * showTimer
+     *
+     * Renders the given timer.
+     *
+     * @param {TimerData} data The timer to render
+     * @param {TimerData[]} list The timers of the same section, used for moving the timer
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    showTimer = (data: TimerData, list: TimerData[]) => {
+        return (
+            <Timer
+                key={data.id}
+                id={data.id}
+                controller={this.props.controller.get(data.id)!}
+                title={data.title}
+                accent={data.accent}
+                icon={data.icon}
+                dragging={this.state.dragId === data.id}
+                dropTarget={this.state.dropId === data.id && this.state.dragId !== data.id}
+                selectable={this.state.selecting}
+                selected={this.state.selected.includes(data.id)}
+                onClick={() => this.openDialog(data.id)}
+                onSelect={() => this.toggleSelected(data.id)}
+                onEdit={() => this.openEdit(data)}
+                onKeydown={$event => this.openKbDialog($event, data.id)}
+                onMove={offset => this.keyboardMove(data, offset, list)}
+                onDragStart={() => this.setState({ dragId: data.id })}
+                onDragEnter={() => this.setState({ dropId: data.id })}
+                onDrop={() => this.dropTimer(data)}
+                onDragEnd={this.endDrag}
+            />
+        );
+    };
+
+    /**
+     * showGroup
+     *
+     * Renders the collapsible section of the given group with its bulk actions.
+     * Collapsed timers are only hidden, so running timers keep counting down.
+     *
+     * @param {TimerGroup} group The group to render
+     * @param {TimerData[]} timers The timers in the group
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    showGroup = (group: TimerGroup, timers: TimerData[]) => {
+        return (
+            <section key={group.id} className="mdf-timer-group" aria-label={`Group ${group.name}`}>
+                <header className="mdf-timer-group__header">
+                    <button
+                        className="mdf-timer-group__toggle"
+                        aria-expanded={!group.collapsed}
+                        aria-controls={`group-${group.id}`}
+                        onClick={() => this.toggleGroup(group)}
+                    >
+                        <svg
+                            className={`mdf-icon ${group.collapsed ? 'mdf-rotate-270' : ''}`}
+                            viewBox="0 0 24 24"
+                            aria-hidden="true"
+                        >
+                            <use href={`${Icons}#arrow-dropdown`} />
+                        </svg>
+                        <span className="mdf-timer-group__name">{group.name}</span>
+                        <span className="mdf-timer-group__count">{timers.length}</span>
+                    </button>
+
+                    <div className="mdf-timer-group__actions">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label={`Start all timers in ${group.name}`}
+                            disabled={!timers.length}
+                            onClick={() => this.startGroup(timers)}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#play`} />
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label={`Stop all timers in ${group.name}`}
+                            disabled={!timers.length}
+                            onClick={() => this.stopGroup(timers)}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#stop`} />
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label={`Remove group ${group.name}`}
+                            onClick={() => this.openGroupDialog(group, false)}
+                            onKeyDown={$event => {
+                                if ($event.key === 'Enter' || $event.key === ' ') {
+                                    $event.preventDefault();
+                                    this.openGroupDialog(group, true);
+                                }
+                            }}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#delete`} />
+                            </svg>
+                        </button>
+                    </div>
+                </header>
+
+                <div id={`group-${group.id}`} className="mdf-timer-grid" hidden={group.collapsed}>
+                    {timers.length ? (
+                        timers.map(data => this.showTimer(data, timers))
+                    ) : (
+                        <p className="mdf-timer-group__empty">No timers in this group yet.</p>
+                    )}
+                </div>
+            </section>
+        );
+    };
+
     /**
      * showTimers
      *
      * Renders all available timers and the button to add more.
+     * Timers without a group come first, followed by one section per group.
      *
      * @memberof Landing
      * @since 1.0.0
@@ -112,38 +404,387 @@ export default class Landing extends React.Component<LandingProps, LandingState>
     showTimers = () => {
         // Make sure we have data available.
         if (this.props.data) {
-            // This array will hold our timers.
-            const timers = [];
-
-            // For each key in your data, we create a timer and add it to the array.
-            for (const data of this.props.data) {
-                timers.push(
-                    <Timer
-                        key={data.id}
-                        time={data.time}
-                        title={data.title}
-                        onClick={() => this.openDialog(data.id)}
-                        onKeydown={$event => this.openKbDialog($event, data.id)}
-                    />
-                );
-            }
+            const groupIds = this.props.groups.map(group => group.id);
 
-            // Finally render the timers and the `Add timer` button.
+            // Timers of unknown groups count as ungrouped.
+            const ungrouped = this.props.data.filter(
+                data => data.group === undefined || !groupIds.includes(data.group)
+            );
+
+            // Finally render the timers, the `Add timer` button and the groups.
             return (
-                <div id="timers">
-                    {timers}
+                <>
+                    {this.state.selecting && this.showSelection()}
 
-                    <button id="add-timer" onClick={this.openAdd}>
-                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
-                            <use href={`${Icons}#add`} />
-                        </svg>
-                        Add another timer
-                    </button>
-                </div>
+                    <div id="timers" className="mdf-timer-grid">
+                        {ungrouped.map(data => this.showTimer(data, ungrouped))}
+
+                        <button id="add-timer" onClick={this.openAdd}>
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#add`} />
+                            </svg>
+                            Add another timer
+                        </button>
+                    </div>
+
+                    {this.props.groups.map(group =>
+                        this.showGroup(
+                            group,
+                            this.props.data.filter(data => data.group === group.id)
+                        )
+                    )}
+                </>
             );
         }
     };
 
+    /**
+     * toggleGroup
+     *
+     * Collapse or expand the given group.
+     *
+     * @param {TimerGroup} group The group to toggle
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    toggleGroup = (group: TimerGroup) => {
+        this.groupStorage.set(group.id.toString(), { ...group, collapsed: !group.collapsed }).then(() => {
+            // Refresh the Landing data.
+            this.props.onRefresh();
+        });
+    };
+
+    /**
+     * startGroup
+     *
+     * Start all given timers that are not running yet.
+     * Finished timers are left alone until their alarm is dealt with.
+     *
+     * @param {TimerData[]} timers The timers of the group
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    startGroup = (timers: TimerData[]) => {
+        this.props.controller.start(timers.map(data => data.id));
+    };
+
+    /**
+     * stopGroup
+     *
+     * Stop all given timers.
+     *
+     * @param {TimerData[]} timers The timers of the group
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    stopGroup = (timers: TimerData[]) => {
+        this.props.controller.stop(timers.map(data => data.id));
+    };
+
+    /**
+     * startAll
+     *
+     * Start all timers that are not running yet.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    startAll = () => {
+        this.props.onMessage(this.describeCount(this.props.controller.start(), 'started'));
+    };
+
+    /**
+     * pauseAll
+     *
+     * Pause all running timers.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    pauseAll = () => {
+        this.props.onMessage(this.describeCount(this.props.controller.pause(), 'paused'));
+    };
+
+    /**
+     * stopAll
+     *
+     * Stop all timers.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    stopAll = () => {
+        this.props.onMessage(this.describeCount(this.props.controller.stop(), 'stopped'));
+    };
+
+    /**
+     * describeCount
+     *
+     * Describe how many timers a bulk action affected, e.g. `3 timers started`.
+     *
+     * @param {number} count The number of affected timers
+     * @param {string} action What happened to the timers
+     * @return {*} {string}
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    describeCount = (count: number, action: string): string => {
+        return count ? `${count} ${count === 1 ? 'timer' : 'timers'} ${action}` : `No timers ${action}`;
+    };
+
+    /**
+     * toggleSelecting
+     *
+     * Enter or leave the selection mode for the bulk actions.
+     * Leaving it clears the selection.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    toggleSelecting = () => {
+        this.setState({
+            selected: [],
+            selecting: !this.state.selecting
+        });
+    };
+
+    /**
+     * toggleSelected
+     *
+     * Add the given timer to the selection or remove it.
+     *
+     * @param {number} id The id of the timer
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    toggleSelected = (id: number) => {
+        const { selected } = this.state;
+
+        this.setState({
+            selected: selected.includes(id) ? selected.filter(value => value !== id) : [...selected, id]
+        });
+    };
+
+    /**
+     * toggleSelectAll
+     *
+     * Select all timers, or none if all of them are selected already.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    toggleSelectAll = () => {
+        const all = this.state.selected.length === this.props.data.length;
+
+        this.setState({
+            selected: all ? [] : this.props.data.map(data => data.id)
+        });
+    };
+
+    /**
+     * startSelected
+     *
+     * Start the selected timers that are not running yet.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    startSelected = () => {
+        this.props.onMessage(this.describeCount(this.props.controller.start(this.state.selected), 'started'));
+    };
+
+    /**
+     * stopSelected
+     *
+     * Stop the selected timers.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    stopSelected = () => {
+        this.props.onMessage(this.describeCount(this.props.controller.stop(this.state.selected), 'stopped'));
+    };
+
+    /**
+     * openSelectedDialog
+     *
+     * Open the `Remove timers` dialog window for the selected timers.
+     *
+     * @param {boolean} keyboard Whether the dialog was opened with the keyboard
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openSelectedDialog = (keyboard: boolean) => {
+        this.setState({
+            dialogActive: true,
+            dialogSelected: true,
+            dialogUseKeyboard: keyboard
+        });
+    };
+
+    /**
+     * deleteSelected
+     *
+     * Delete the selected timers from storage, leave the selection mode and refresh the Landing data.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    deleteSelected = () => {
+        const timers = this.props.data.filter(data => this.state.selected.includes(data.id));
+
+        // End the runs that are still going in the history.
+        this.props.controller.cancel(timers.map(timer => timer.id));
+
+        // Delete the timers from storage.
+        Promise.all(timers.map(timer => this.storage.delete(timer.id.toString()))).then(() => {
+            // Hide the dialog and leave the selection mode.
+            this.cancelDialog();
+            this.setState({
+                selected: [],
+                selecting: false
+            });
+
+            // Refresh the Landing data.
+            this.props.onRefresh();
+
+            // Display a message to the user.
+            this.props.onMessage(this.describeCount(timers.length, 'successfully removed'));
+        });
+    };
+
+    /**
+     * showSelection
+     *
+     * Renders the bar with the bulk actions for the selected timers.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    showSelection = () => {
+        const { selected } = this.state;
+        const all = selected.length === this.props.data.length;
+
+        return (
+            <div id="selection-bar" role="toolbar" aria-label="Selected timers">
+                <button
+                    className="mdf-button mdf-button--icon"
+                    role="checkbox"
+                    aria-checked={all ? true : selected.length ? 'mixed' : false}
+                    aria-label="Select all timers"
+                    onClick={this.toggleSelectAll}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use
+                            href={`${Icons}#${
+                                all ? 'checkbox' : selected.length ? 'checkbox-indeterminate' : 'checkbox-outline'
+                            }`}
+                        />
+                    </svg>
+                </button>
+
+                <span id="selection-count" aria-live="polite">
+                    {selected.length} selected
+                </span>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Start selected timers"
+                    disabled={!selected.length}
+                    onClick={this.startSelected}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#play`} />
+                    </svg>
+                </button>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Stop selected timers"
+                    disabled={!selected.length}
+                    onClick={this.stopSelected}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#stop`} />
+                    </svg>
+                </button>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Remove selected timers"
+                    disabled={!selected.length}
+                    onClick={() => this.openSelectedDialog(false)}
+                    onKeyDown={$event => {
+                        if ($event.key === 'Enter' || $event.key === ' ') {
+                            $event.preventDefault();
+                            this.openSelectedDialog(true);
+                        }
+                    }}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                        <use href={`${Icons}#delete`} />
+                    </svg>
+                </button>
+
+                <button className="mdf-button" onClick={this.toggleSelecting}>
+                    Done
+                </button>
+            </div>
+        );
+    };
+
+    /**
+     * openGroupDialog
+     *
+     * Open the `Remove group` dialog window.
+     *
+     * @param {TimerGroup} group The group to remove
+     * @param {boolean} keyboard Whether the dialog was opened with the keyboard
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    openGroupDialog = (group: TimerGroup, keyboard: boolean) => {
+        this.setState({
+            dialogActive: true,
+            dialogGroup: group,
+            dialogUseKeyboard: keyboard
+        });
+    };
+
+    /**
+     * deleteGroup
+     *
+     * Delete the requested group and all of its timers from storage and refresh the Landing data.
+     *
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    deleteGroup = () => {
+        const group = this.state.dialogGroup;
+
+        if (!group) return;
+
+        const timers = this.props.data.filter(data => data.group === group.id);
+
+        // End the runs that are still going in the history.
+        this.props.controller.cancel(timers.map(timer => timer.id));
+
+        // Delete the timers and the group from storage.
+        Promise.all([
+            ...timers.map(timer => this.storage.delete(timer.id.toString())),
+            this.groupStorage.delete(group.id.toString())
+        ]).then(() => {
+            // Hide the dialog.
+            this.cancelDialog();
+
+            // Refresh the Landing data.
+            this.props.onRefresh();
+
+            // Display a message to the user.
+            this.props.onMessage('Group successfully removed');
+        });
+    };
+
     /**
      * cancelDialog
      *
@@ -154,7 +795,9 @@ export default class Landing extends React.Component<LandingProps, LandingState>
      */
     cancelDialog = () => {
         this.setState({
-            dialogActive: false
+            dialogActive: false,
+            dialogGroup: null,
+            dialogSelected: false
         });
     };
 
@@ -167,6 +810,9 @@ export default class Landing extends React.Component<LandingProps, LandingState>
      * @since 1.0.0
      */
     deleteTimer = () => {
+        // End a run that is still going in the history.
+        this.props.controller.cancel([this.state.dialogId]);
+
         // Delete the checklist from storage.
         this.storage.delete(this.state.dialogId.toString()).then(() => {
             // Hide the dialog.
@@ -180,6 +826,25 @@ export default class Landing extends React.Component<LandingProps, LandingState>
         });
     };
 
+    /**
+     * addPreset
+     *
+     * Create a timer from the given preset and refresh the Landing data.
+     *
+     * @param {TimerPreset} preset The preset to use
+     * @memberof Landing
+     * @since 1.1.0
+     */
+    addPreset = (preset: TimerPreset) => {
+        this.presets.createTimer(preset).then(() => {
+            // Refresh the Landing data.
+            this.props.onRefresh();
+
+            // Display a message to the user.
+            this.props.onMessage(`${preset.title} timer successfully added`);
+        });
+    };
+
     /**
      * welcomeMessage
      *
@@ -200,12 +865,20 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                 <button className="mdf-button mdf-button--filled mdf-button--large" onClick={this.openAdd}>
                     Get started now
                 </button>
+
+                {this.props.presets.length > 0 && (
+                    <div id="landing-presets">
+                        <p id="landing-presets-heading">Or start with one of these timers</p>
+
+                        <Presets label="Timer presets" presets={this.props.presets} onSelect={this.addPreset} />
+                    </div>
+                )}
             </div>
         );
     };
 
     render() {
-        const { receiveFocus } = this.props;
+        const { data, receiveFocus, running } = this.props;
 
         return (
             <div className="mdf-slide" tabIndex={receiveFocus ? undefined : -1}>
@@ -213,6 +886,67 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                     <h2 className="mdf-slide__title">{this.title}</h2>
 
                     <div className="mdf-slide__controls">
+                        {data.length > 0 && (
+                            <div id="global-controls" role="toolbar" aria-label="All timers">
+                                <button
+                                    className="mdf-button mdf-button--icon"
+                                    aria-label="Start all timers"
+                                    disabled={data.every(timer => running.includes(timer.id))}
+                                    onClick={this.startAll}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#play`} />
+                                    </svg>
+                                </button>
+
+                                <button
+                                    className="mdf-button mdf-button--icon"
+                                    aria-label="Pause all timers"
+                                    disabled={!running.length}
+                                    onClick={this.pauseAll}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#pause`} />
+                                    </svg>
+                                </button>
+
+                                <button
+                                    className="mdf-button mdf-button--icon"
+                                    aria-label="Stop all timers"
+                                    onClick={this.stopAll}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#stop`} />
+                                    </svg>
+                                </button>
+
+                                <button
+                                    id="toggle-selecting"
+                                    className={`mdf-button mdf-button--icon ${
+                                        this.state.selecting ? 'mdf-button--filled' : ''
+                                    }`}
+                                    aria-label="Select timers"
+                                    aria-pressed={this.state.selecting}
+                                    onClick={this.toggleSelecting}
+                                >
+                                    <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                        <use href={`${Icons}#checklist`} />
+                                    </svg>
+                                </button>
+                            </div>
+                        )}
+
+                        <button
+                            id="show-stats"
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Show timer statistics"
+                            onClick={this.openStats}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#chart`} />
+                            </svg>
+                        </button>
+
                         <button
                             id="show-options"
                             className="mdf-button mdf-button--icon"
@@ -241,7 +975,31 @@ export default class Landing extends React.Component<LandingProps, LandingState>
                     </span>
                 </footer>
 
-                {this.state.dialogActive && (
+                {this.state.dialogActive && this.state.dialogGroup && (
+                    <Dialog
+                        title={'Remove group'}
+                        description={`Are you sure you want to remove the group "${
+                            this.state.dialogGroup.name
+                        }" and all of its timers?`}
+                        keyboard={this.state.dialogUseKeyboard}
+                        onConfirm={this.deleteGroup}
+                        onCancel={this.cancelDialog}
+                    />
+                )}
+
+                {this.state.dialogActive && this.state.dialogSelected && (
+                    <Dialog
+                        title={'Remove timers'}
+                        description={`Are you sure you want to remove the ${this.state.selected.length} selected ${
+                            this.state.selected.length === 1 ? 'timer' : 'timers'
+                        }?`}
+                        keyboard={this.state.dialogUseKeyboard}
+                        onConfirm={this.deleteSelected}
+                        onCancel={this.cancelDialog}
+                    />
+                )}
+
+                {this.state.dialogActive && !this.state.dialogGroup && !this.state.dialogSelected && (
                     <Dialog
                         title={'Remove timer'}
                         description={'Are you sure you want to remove this timer?'}
@@ -253,4 +1011,25 @@ export default class Landing extends React.Component<LandingProps, LandingState>
             </div>
         );
     }
+
+    componentDidUpdate(prevProps: LandingProps) {
+        // Give the focus back to a moved timer once the new order is rendered.
+        if (this.focusId !== null && prevProps.data !== this.props.data) {
+            document.getElementById(`timer-${this.focusId}`)?.focus();
+            this.focusId = null;
+        }
+
+        // Forget selected timers that were removed, e.g. in another tab.
+        if (prevProps.data !== this.props.data) {
+            const ids = this.props.data.map(data => data.id);
+            const selected = this.state.selected.filter(id => ids.includes(id));
+
+            if (selected.length !== this.state.selected.length) {
+                this.setState({
+                    selected: selected,
+                    selecting: this.state.selecting && ids.length > 0
+                });
+            }
+        }
+    }
 }
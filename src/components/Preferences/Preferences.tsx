@@ -1,18 +1,31 @@
 import React from 'react';
+import BackupManager from '../../backup.manager';
+import Dialog from '../Dialog/Dialog';
+import NotificationManager from '../../notification.manager';
 import PreferencesManager from '../../preferences.manager';
+import ShortcutManager, { ShortcutAction } from '../../shortcut.manager';
 import { removeClassByPrefix } from '../../helpers';
+import { Backup } from '../../types';
 
 import './Preferences.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface PreferencesProps {
     onBack: () => void;
+    onMessage: (message: string) => void;
+    onRefresh: () => void;
 }
 
 interface PreferencesState {
     accent: string;
+    dialogActive: boolean;
     gradient: string;
+    recordingAction: ShortcutAction | null;
+    shortcutKeys: Record<ShortcutAction, string>;
     useDarkTheme: boolean;
+    useFavicon: boolean;
+    useNotifications: boolean;
+    useShortcuts: boolean;
 }
 
 /**
@@ -27,9 +40,25 @@ interface PreferencesState {
  */
 export default class Preferences extends React.Component<PreferencesProps, PreferencesState> {
     appContainer!: HTMLElement; // App container element.
+    backup = new BackupManager(); // Handles exporting and importing backups.
+    fileRef: React.RefObject<HTMLInputElement> = React.createRef(); // Ref to the backup file input.
+    importReplace: boolean = false; // Whether the next import replaces the existing timers.
+    pendingBackup: Backup | null = null; // Backup waiting for the user to confirm the replacement.
+    notifications = new NotificationManager(); // Handles the notification permission.
     preferences: PreferencesManager; // Handles getting/setting the user settings.
-
-    state = { accent: 'green', gradient: 'Quepal', useDarkTheme: false };
+    shortcuts = new ShortcutManager(); // Handles the keyboard shortcut keys.
+
+    state = {
+        accent: 'green',
+        dialogActive: false,
+        gradient: 'Quepal',
+        recordingAction: null as ShortcutAction | null,
+        shortcutKeys: this.shortcuts.getKeys(),
+        useDarkTheme: false,
+        useFavicon: true,
+        useNotifications: false,
+        useShortcuts: true
+    };
 
     constructor(props: PreferencesProps) {
         super(props);
@@ -116,6 +145,348 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
         });
     };
 
+    /**
+     * toggleNotifications
+     *
+     * Toggle desktop notifications for finished timers.
+     * Asks the browser for permission when they are turned on.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    toggleNotifications = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        if (!$event.target.checked) {
+            // Turn notifications off.
+            this.preferences.set('notifications', 'off');
+            this.setState({
+                useNotifications: false
+            });
+            return;
+        }
+
+        if (!this.notifications.isSupported()) {
+            this.props.onMessage('Your browser does not support notifications');
+            return;
+        }
+
+        this.notifications.requestPermission().then(granted => {
+            // Only turn notifications on if the browser allows us to show them.
+            this.preferences.set('notifications', granted ? 'on' : 'off');
+
+            // Update our state.
+            this.setState({
+                useNotifications: granted
+            });
+
+            if (!granted) {
+                this.props.onMessage('Notifications are blocked by your browser');
+            }
+        });
+    };
+
+    /**
+     * toggleFavicon
+     *
+     * Turn the progress of running timers in the favicon on or off.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    toggleFavicon = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        // Store the setting in localStorage.
+        this.preferences.set('favicon', $event.target.checked ? 'on' : 'off');
+
+        // Update our state.
+        this.setState({
+            useFavicon: $event.target.checked
+        });
+    };
+
+    /**
+     * toggleShortcuts
+     *
+     * Turn the keyboard shortcuts on or off.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    toggleShortcuts = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        // Store the setting in localStorage.
+        this.preferences.set('shortcuts', $event.target.checked ? 'on' : 'off');
+
+        // Update our state.
+        this.setState({
+            useShortcuts: $event.target.checked
+        });
+    };
+
+    /**
+     * recordShortcut
+     *
+     * Wait for the user to press the new key for the given action.
+     *
+     * @param {ShortcutAction} action The action to change
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    recordShortcut = (action: ShortcutAction) => {
+        this.setState({
+            recordingAction: this.state.recordingAction === action ? null : action
+        });
+    };
+
+    /**
+     * saveShortcut
+     *
+     * Bind the pressed key to the action we are recording.
+     * Number keys and keys already bound to another action are refused.
+     *
+     * @param {React.KeyboardEvent<HTMLButtonElement>} $event
+     * @param {ShortcutAction} action The action to change
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    saveShortcut = ($event: React.KeyboardEvent<HTMLButtonElement>, action: ShortcutAction) => {
+        // Tab keeps moving the focus.
+        if (this.state.recordingAction !== action || $event.key === 'Tab') return;
+
+        // Keep the key from triggering anything else.
+        $event.preventDefault();
+        $event.stopPropagation();
+
+        // Wait for the actual key of a key combination.
+        if (['Shift', 'Control', 'Alt', 'Meta'].includes($event.key)) return;
+
+        const key = this.shortcuts.normalize($event.key);
+        const taken = this.shortcuts.actions.find(
+            option => option.action !== action && this.state.shortcutKeys[option.action] === key
+        );
+
+        if (/^[0-9]$/.test(key)) {
+            this.props.onMessage('Number keys are reserved for focusing timers');
+        } else if (taken) {
+            this.props.onMessage(`${this.shortcuts.describe(key)} is already used to ${taken.label.toLowerCase()}`);
+        } else {
+            this.shortcuts.setKey(action, key);
+        }
+
+        // Update our state.
+        this.setState({
+            recordingAction: null,
+            shortcutKeys: this.shortcuts.getKeys()
+        });
+    };
+
+    /**
+     * resetShortcuts
+     *
+     * Restore the default shortcut keys.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    resetShortcuts = () => {
+        this.shortcuts.resetKeys();
+
+        // Update our state.
+        this.setState({
+            recordingAction: null,
+            shortcutKeys: this.shortcuts.getKeys()
+        });
+    };
+
+    /**
+     * listShortcuts
+     *
+     * Render the HTML for the shortcut keys.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    listShortcuts = () => {
+        return this.shortcuts.actions.map(({ action, label }) => (
+            <div key={action} className="mdf-shortcut">
+                <button
+                    className={`mdf-button ${this.state.recordingAction === action ? 'mdf-button--filled' : ''}`}
+                    aria-label={`Change the key to ${label.toLowerCase()}`}
+                    disabled={!this.state.useShortcuts}
+                    onClick={() => this.recordShortcut(action)}
+                    onKeyDown={$event => this.saveShortcut($event, action)}
+                    onBlur={() => this.setState({ recordingAction: null })}
+                >
+                    {this.state.recordingAction === action
+                        ? 'Press a key'
+                        : this.shortcuts.describe(this.state.shortcutKeys[action])}
+                </button>
+
+                <span className="mdf-shortcut__label">{label}</span>
+            </div>
+        ));
+    };
+
+    /**
+     * exportBackup
+     *
+     * Download all timers, groups, templates and preferences as a JSON file.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    exportBackup = () => {
+        this.backup.download().then(count => {
+            this.props.onMessage(`Exported ${count} ${count === 1 ? 'timer' : 'timers'}`);
+        });
+    };
+
+    /**
+     * chooseBackup
+     *
+     * Open the file picker to select a backup file.
+     *
+     * @param {boolean} replace Whether the import replaces the existing timers
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    chooseBackup = (replace: boolean) => {
+        this.importReplace = replace;
+        this.fileRef.current?.click();
+    };
+
+    /**
+     * readBackup
+     *
+     * Read and validate the selected backup file.
+     * Replacing the existing timers needs to be confirmed first.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} $event
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    readBackup = ($event: React.ChangeEvent<HTMLInputElement>) => {
+        const input = $event.target;
+        const file = input.files && input.files[0];
+
+        if (!file) return;
+
+        file.text()
+            .then(text => {
+                const backup = this.backup.parse(text);
+
+                if (this.importReplace) {
+                    // Ask for confirmation before removing anything.
+                    this.pendingBackup = backup;
+                    this.setState({
+                        dialogActive: true
+                    });
+                } else {
+                    this.importBackup(backup, false);
+                }
+            })
+            .catch((error: Error) => this.props.onMessage(error.message))
+            .finally(() => {
+                // Allow selecting the same file again.
+                input.value = '';
+            });
+    };
+
+    /**
+     * importBackup
+     *
+     * Save the timers and apply the preferences from the given backup.
+     * If saving fails, e.g. because the storage is full, the user is told and the existing data is kept.
+     *
+     * @param {Backup} backup The validated backup
+     * @param {boolean} replace Whether to replace all existing timers, groups and templates
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    importBackup = (backup: Backup, replace: boolean) => {
+        this.backup
+            .restore(backup, replace)
+            .then(count => {
+                const { accent, gradient, notifications, theme } = backup.preferences;
+
+                // Apply the imported preferences.
+                if (accent && this.preferences.accents.includes(accent)) {
+                    this.setAccent(accent);
+                }
+
+                if (gradient && this.preferences.gradients.includes(gradient)) {
+                    this.setGradient(gradient);
+                }
+
+                if (theme === 'dark' || theme === 'light') {
+                    document.body.classList.toggle('mdf-theme-dark', theme === 'dark');
+                    this.preferences.set('theme', theme);
+                }
+
+                if (notifications === 'on' || notifications === 'off') {
+                    this.preferences.set('notifications', notifications);
+                }
+
+                if (backup.preferences.favicon === 'on' || backup.preferences.favicon === 'off') {
+                    this.preferences.set('favicon', backup.preferences.favicon);
+                }
+
+                if (backup.preferences.shortcuts === 'on' || backup.preferences.shortcuts === 'off') {
+                    this.preferences.set('shortcuts', backup.preferences.shortcuts);
+                }
+
+                if (backup.preferences['shortcut-keys']) {
+                    this.preferences.set('shortcut-keys', backup.preferences['shortcut-keys']);
+                }
+
+                // Load the new preferences to our state.
+                this.applyPreferences();
+
+                // Refresh the Landing data.
+                this.props.onRefresh();
+
+                // Display a summary to the user.
+                this.props.onMessage(`Imported ${count} ${count === 1 ? 'timer' : 'timers'}`);
+            })
+            .catch(() => {
+                // Show whatever made it into storage.
+                this.props.onRefresh();
+
+                this.props.onMessage('The backup could not be imported completely, your existing data was kept');
+            });
+    };
+
+    /**
+     * confirmReplace
+     *
+     * Import the pending backup after the user confirmed the replacement.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    confirmReplace = () => {
+        if (this.pendingBackup) {
+            this.importBackup(this.pendingBackup, true);
+        }
+
+        this.cancelReplace();
+    };
+
+    /**
+     * cancelReplace
+     *
+     * Close the dialog window and drop the pending backup.
+     *
+     * @memberof Preferences
+     * @since 1.1.0
+     */
+    cancelReplace = () => {
+        this.pendingBackup = null;
+        this.setState({
+            dialogActive: false
+        });
+    };
+
     /**
      * applyPreferences
      *
@@ -128,7 +499,11 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
         this.setState({
             accent: this.preferences.get('accent')!,
             gradient: this.preferences.get('gradient')!,
-            useDarkTheme: this.preferences.get('theme') === 'dark' ? true : false
+            useDarkTheme: this.preferences.get('theme') === 'dark' ? true : false,
+            useFavicon: this.preferences.get('favicon') !== 'off',
+            shortcutKeys: this.shortcuts.getKeys(),
+            useNotifications: this.notifications.isEnabled(),
+            useShortcuts: this.shortcuts.isEnabled()
         });
     };
 
@@ -245,10 +620,154 @@ export default class Preferences extends React.Component<PreferencesProps, Prefe
                                 </div>
                             </div>
                         </div>
+
+                        <div id="notifications" className="mdf-group">
+                            <div className="mdf-group__header">
+                                <h6 className="mdf-group__title">Notifications</h6>
+                                <p className="mdf-group__description">
+                                    Get a desktop notification when a timer finishes, even if the app is in the
+                                    background.
+                                </p>
+                            </div>
+
+                            <div className="mdf-group__grid">
+                                <div className="mdf-control">
+                                    <div className="mdf-switch">
+                                        <input
+                                            id="notifications-switch"
+                                            className="mdf-switch__input"
+                                            type="checkbox"
+                                            role="switch"
+                                            checked={this.state.useNotifications}
+                                            onChange={$event => this.toggleNotifications($event)}
+                                        />
+
+                                        <div className="mdf-switch__track" />
+                                        <div className="mdf-switch__thumb" />
+                                        <div className="mdf-switch__shadow" />
+                                    </div>
+
+                                    <label htmlFor="notifications-switch">Enable notifications</label>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div id="favicon" className="mdf-group">
+                            <div className="mdf-group__header">
+                                <h6 className="mdf-group__title">Tab icon</h6>
+                                <p className="mdf-group__description">
+                                    Show the progress of the timer finishing next in the icon of the browser tab.
+                                </p>
+                            </div>
+
+                            <div className="mdf-group__grid">
+                                <div className="mdf-control">
+                                    <div className="mdf-switch">
+                                        <input
+                                            id="favicon-switch"
+                                            className="mdf-switch__input"
+                                            type="checkbox"
+                                            role="switch"
+                                            checked={this.state.useFavicon}
+                                            onChange={$event => this.toggleFavicon($event)}
+                                        />
+
+                                        <div className="mdf-switch__track" />
+                                        <div className="mdf-switch__thumb" />
+                                        <div className="mdf-switch__shadow" />
+                                    </div>
+
+                                    <label htmlFor="favicon-switch">Show progress in the tab icon</label>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div id="shortcuts" className="mdf-group">
+                            <div className="mdf-group__header">
+                                <h6 className="mdf-group__title">Keyboard shortcuts</h6>
+                                <p className="mdf-group__description">
+                                    Control your timers without the mouse. Select a key to change it, press{' '}
+                                    <kbd>{this.shortcuts.describe(this.state.shortcutKeys.help)}</kbd> anywhere to see
+                                    all shortcuts.
+                                </p>
+                            </div>
+
+                            <div className="mdf-group__grid">
+                                <div className="mdf-control">
+                                    <div className="mdf-switch">
+                                        <input
+                                            id="shortcuts-switch"
+                                            className="mdf-switch__input"
+                                            type="checkbox"
+                                            role="switch"
+                                            checked={this.state.useShortcuts}
+                                            onChange={$event => this.toggleShortcuts($event)}
+                                        />
+
+                                        <div className="mdf-switch__track" />
+                                        <div className="mdf-switch__thumb" />
+                                        <div className="mdf-switch__shadow" />
+                                    </div>
+
+                                    <label htmlFor="shortcuts-switch">Enable keyboard shortcuts</label>
+                                </div>
+
+                                <div className="mdf-shortcut-list">{this.listShortcuts()}</div>
+
+                                <button
+                                    className="mdf-button"
+                                    disabled={!this.state.useShortcuts}
+                                    onClick={this.resetShortcuts}
+                                >
+                                    Reset keys
+                                </button>
+                            </div>
+                        </div>
+
+                        <div id="backup" className="mdf-group">
+                            <div className="mdf-group__header">
+                                <h6 className="mdf-group__title">Backup</h6>
+                                <p className="mdf-group__description">
+                                    Save all timers and preferences to a file, or restore them on another device.
+                                    Merging keeps your current timers, replacing removes them.
+                                </p>
+                            </div>
+
+                            <div className="mdf-group__grid">
+                                <button className="mdf-button" onClick={this.exportBackup}>
+                                    Export
+                                </button>
+
+                                <button className="mdf-button" onClick={() => this.chooseBackup(false)}>
+                                    Import &amp; merge
+                                </button>
+
+                                <button className="mdf-button" onClick={() => this.chooseBackup(true)}>
+                                    Import &amp; replace
+                                </button>
+
+                                <input
+                                    ref={this.fileRef}
+                                    type="file"
+                                    accept="application/json,.json"
+                                    hidden
+                                    onChange={$event => this.readBackup($event)}
+                                />
+                            </div>
+                        </div>
                     </div>
                 </main>
 
                 <footer className="mdf-slide__footer" />
+
+                {this.state.dialogActive && (
+                    <Dialog
+                        title={'Replace timers'}
+                        description={'Are you sure you want to replace all existing timers with the backup?'}
+                        onConfirm={this.confirmReplace}
+                        onCancel={this.cancelReplace}
+                    />
+                )}
             </div>
         );
     }
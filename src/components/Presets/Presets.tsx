@@ -0,0 +1,91 @@
+import React from 'react';
+import { TimerPreset } from '../../types';
+
+import './Presets.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface PresetsProps {
+    presets: TimerPreset[];
+    label: string;
+    onSelect: (preset: TimerPreset) => void;
+    onRemove?: (preset: TimerPreset) => void;
+}
+
+/**
+ * Presets
+ *
+ * Displays the timer presets as chips.
+ * Selecting a chip creates a timer from the preset, templates saved by the user can be removed.
+ *
+ * @export
+ * @class Presets
+ * @extends {React.Component<PresetsProps>}
+ * @version 1.0.0
+ */
+export default class Presets extends React.Component<PresetsProps> {
+    /**
+     * describeTime
+     *
+     * Describe the duration of the given preset in short, e.g. `1h 30m` or `45s`.
+     *
+     * @param {TimerPreset} preset The preset to describe
+     * @return {*} {string}
+     * @memberof Presets
+     * @since 1.0.0
+     */
+    describeTime = (preset: TimerPreset): string => {
+        if (preset.mode === 'stopwatch') return 'stopwatch';
+        if (preset.targetTime) return `until ${preset.targetTime}`;
+
+        const hours = Math.floor(preset.time / 3600);
+        const minutes = Math.floor((preset.time % 3600) / 60);
+        const seconds = preset.time % 60;
+
+        return [hours ? `${hours}h` : '', minutes ? `${minutes}m` : '', seconds ? `${seconds}s` : '']
+            .filter(part => part.length)
+            .join(' ');
+    };
+
+    render() {
+        const { label, presets, onRemove, onSelect } = this.props;
+
+        return (
+            <div className="mdf-chips">
+                <div className="mdf-chips__grid" role="grid" aria-label={label}>
+                    {presets.map(preset => (
+                        <div key={preset.id} className="mdf-chips__chip" role="row">
+                            <span role="gridcell">
+                                <button
+                                    className="mdf-chips__text"
+                                    aria-label={`Add ${preset.title} timer, ${this.describeTime(preset)}`}
+                                    onClick={() => onSelect(preset)}
+                                >
+                                    {preset.icon && (
+                                        <svg className="mdf-chips__icon" viewBox="0 0 24 24" aria-hidden="true">
+                                            <use href={`${Icons}#${preset.icon}`} />
+                                        </svg>
+                                    )}
+                                    {preset.title} &middot; {this.describeTime(preset)}
+                                </button>
+                            </span>
+
+                            {onRemove && !preset.builtIn && (
+                                <span role="gridcell">
+                                    <button
+                                        className="mdf-chips__action"
+                                        aria-label={`Remove ${preset.title} template`}
+                                        onClick={() => onRemove(preset)}
+                                    >
+                                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                            <use href={`${Icons}#cancel`} />
+                                        </svg>
+                                    </button>
+                                </span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+}
@@ -0,0 +1,249 @@
+import React from 'react';
+import HistoryManager from '../../history.manager';
+import { HistoryEvent } from '../../types';
+
+import './Stats.scoped.scss';
+import Icons from '../../assets/images/icons.svg';
+
+interface StatsProps {
+    onBack: () => void;
+}
+
+interface StatsState {
+    events: HistoryEvent[];
+    loaded: boolean;
+}
+
+/**
+ * Stats
+ *
+ * Shows how often and how long the timers ran, based on the recorded history.
+ *
+ * @export
+ * @class Stats
+ * @extends {React.Component<StatsProps, StatsState>}
+ * @version 1.0.0
+ */
+export default class Stats extends React.Component<StatsProps, StatsState> {
+    chartDays: number = 7; // Number of days shown in the chart.
+    chartHeight: number = 120; // Height of the chart bars area (in px).
+    history = new HistoryManager(); // Loads and summarizes the recorded history.
+
+    state = { events: [] as HistoryEvent[], loaded: false };
+
+    /**
+     * formatDuration
+     *
+     * Format the given duration as hours and minutes, e.g. `1h 25m`.
+     *
+     * @param {number} time Duration (in ms)
+     * @return {*} {string}
+     * @memberof Stats
+     * @since 1.0.0
+     */
+    formatDuration = (time: number): string => {
+        const minutes = Math.floor(time / 60000);
+        const hours = Math.floor(minutes / 60);
+
+        return hours ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+    };
+
+    /**
+     * getChartDays
+     *
+     * Collect the running time of the last few days, oldest first.
+     *
+     * @return {*} {{ label: string; time: number }[]}
+     * @memberof Stats
+     * @since 1.0.0
+     */
+    getChartDays = (): { label: string; time: number }[] => {
+        const totals = this.history.getDailyTotals(this.state.events);
+        const days: { label: string; time: number }[] = [];
+
+        for (let i = this.chartDays - 1; i >= 0; i--) {
+            const date = new Date();
+            date.setDate(date.getDate() - i);
+
+            days.push({
+                label: date.toLocaleDateString(undefined, { weekday: 'short' }),
+                time: totals[this.history.dayKey(date.getTime())] || 0
+            });
+        }
+
+        return days;
+    };
+
+    /**
+     * showChart
+     *
+     * Draw a bar chart of the running time per day.
+     *
+     * @return {*} {JSX.Element}
+     * @memberof Stats
+     * @since 1.0.0
+     */
+    showChart = (): JSX.Element => {
+        const days = this.getChartDays();
+        const max = Math.max(...days.map(day => day.time), 1);
+        const barWidth = 24;
+        const gap = 16;
+        const width = days.length * (barWidth + gap);
+
+        return (
+            <svg
+                className="mdf-chart"
+                viewBox={`0 0 ${width} ${this.chartHeight + 24}`}
+                role="img"
+                aria-label={days.map(day => `${day.label}: ${this.formatDuration(day.time)}`).join(', ')}
+            >
+                {days.map((day, index) => {
+                    // Give days with any running time a visible bar.
+                    const height = day.time ? Math.max(2, (day.time / max) * this.chartHeight) : 0;
+                    const x = index * (barWidth + gap) + gap / 2;
+
+                    return (
+                        <g key={index}>
+                            <title>{`${day.label}: ${this.formatDuration(day.time)}`}</title>
+                            <rect
+                                className="mdf-chart__bar"
+                                x={x}
+                                y={this.chartHeight - height}
+                                width={barWidth}
+                                height={height}
+                                rx={4}
+                            />
+                            <text
+                                className="mdf-chart__label"
+                                x={x + barWidth / 2}
+                                y={this.chartHeight + 18}
+                                textAnchor="middle"
+                            >
+                                {day.label}
+                            </text>
+                        </g>
+                    );
+                })}
+            </svg>
+        );
+    };
+
+    /**
+     * showTotals
+     *
+     * Show the running time of today and the last few days.
+     *
+     * @return {*} {JSX.Element}
+     * @memberof Stats
+     * @since 1.0.0
+     */
+    showTotals = (): JSX.Element => {
+        const days = this.getChartDays();
+        const totals = [
+            { label: 'Today', time: days[days.length - 1].time },
+            { label: `Last ${this.chartDays} days`, time: days.reduce((total, day) => total + day.time, 0) }
+        ];
+
+        return (
+            <dl className="mdf-totals">
+                {totals.map(total => (
+                    <div key={total.label} className="mdf-totals__item">
+                        <dt className="mdf-totals__label">{total.label}</dt>
+                        <dd className="mdf-totals__time">{this.formatDuration(total.time)}</dd>
+                    </div>
+                ))}
+            </dl>
+        );
+    };
+
+    /**
+     * showTimers
+     *
+     * List the runs and running time per timer.
+     *
+     * @return {*} {JSX.Element}
+     * @memberof Stats
+     * @since 1.0.0
+     */
+    showTimers = (): JSX.Element => {
+        return (
+            <ul className="mdf-list">
+                {this.history.getTimerStats(this.state.events).map(timer => (
+                    <li key={timer.id} className="mdf-list__item">
+                        <span className="mdf-list__title">{timer.title ? timer.title : 'Untitled'}</span>
+                        <span className="mdf-list__meta">
+                            {timer.runs} {timer.runs === 1 ? 'run' : 'runs'}, {timer.finished} finished
+                        </span>
+                        <span className="mdf-list__time">{this.formatDuration(timer.time)}</span>
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    render() {
+        return (
+            <div className="mdf-slide">
+                <header className="mdf-slide__header">
+                    <div className="mdf-slide__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Return to the previous page"
+                            onClick={this.props.onBack}
+                        >
+                            <svg className="mdf-icon mdf-rotate-180" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#arrow-keyboard`} />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <h2 className="mdf-slide__title">
+                        Your timer <strong>statistics.</strong>
+                    </h2>
+                </header>
+
+                <main className="mdf-slide__main">
+                    <div className="mdf-slide__content">
+                        {this.state.loaded && !this.state.events.length && (
+                            <p id="stats-empty">No timers have run yet. Start one and check back later.</p>
+                        )}
+
+                        {this.state.events.length > 0 && (
+                            <>
+                                <div id="focus" className="mdf-group">
+                                    <div className="mdf-group__header">
+                                        <h6 className="mdf-group__title">Focused time</h6>
+                                        <p className="mdf-group__description">
+                                            The time your timers spent running over the last {this.chartDays} days.
+                                        </p>
+                                    </div>
+
+                                    <div className="mdf-group__grid">
+                                        {this.showTotals()}
+                                        {this.showChart()}
+                                    </div>
+                                </div>
+
+                                <div id="runs" className="mdf-group">
+                                    <div className="mdf-group__header">
+                                        <h6 className="mdf-group__title">Timers</h6>
+                                        <p className="mdf-group__description">
+                                            How often each timer was run and finished.
+                                        </p>
+                                    </div>
+
+                                    <div className="mdf-group__grid">{this.showTimers()}</div>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </main>
+            </div>
+        );
+    }
+
+    componentDidMount() {
+        // Load the recorded history.
+        this.history.load().then(events => this.setState({ events: events, loaded: true }));
+    }
+}
@@ -1,19 +1,30 @@
 import React from 'react';
+import ShortcutManager from '../../shortcut.manager';
+import TimerController from '../../timer.controller';
+import { TimerRunState } from '../../types';
 
 import './Timer.scoped.scss';
 import Icons from '../../assets/images/icons.svg';
 
 interface TimerProps {
-    time: number;
+    id: number;
+    controller: TimerController;
     title?: string;
+    accent?: string;
+    icon?: string;
+    dragging?: boolean;
+    dropTarget?: boolean;
+    selectable?: boolean;
+    selected?: boolean;
     onClick?: () => void;
+    onEdit?: () => void;
     onKeydown?: ($event: React.KeyboardEvent<HTMLButtonElement>) => void;
-}
-
-interface TimerState {
-    paused: boolean;
-    stopped: boolean;
-    time: number;
+    onMove?: (offset: number) => void;
+    onSelect?: () => void;
+    onDragStart?: () => void;
+    onDragEnter?: () => void;
+    onDrop?: () => void;
+    onDragEnd?: () => void;
 }
 
 /**
@@ -21,43 +32,23 @@ interface TimerState {
  *
  * Displays the timer and its controls.
  * Allows the user to start, pause, stop and remove the timer.
+ * The run state lives in the timer's `TimerController`, so the timer keeps running while it is not rendered.
+ * In stopwatch mode the timer counts up instead and records laps.
+ * In sequence mode the timer counts down a list of phases, e.g. work and break sessions.
+ * Countdowns to a time of day always run until that time, measured against the clock.
+ * Repeating countdowns restart once they finish, optionally after a break, and list their completed rounds.
+ * While the Landing slide selects timers for bulk actions, the timer shows a checkbox.
  *
  * @export
  * @class Timer
- * @extends {React.Component<TimerProps, TimerState>}
+ * @extends {React.Component<TimerProps, TimerRunState>}
  * @version 1.0.0
  */
-export default class Timer extends React.Component<TimerProps, TimerState> {
-    defaultTime: number = 0; // Saves the initial duration of the timer.
-    domTitle: string; // Saves the original document title.
-    elapsedTime: number = 0; // Amount of time left.
-    interval: number = 0; // Interval instance.
-
-    state = { paused: true, stopped: false, time: 0 };
+export default class Timer extends React.Component<TimerProps, TimerRunState> {
+    progressRadius: number = 10; // Radius of the progress ring (in viewBox units).
+    shortcuts = new ShortcutManager(); // Matches keyboard shortcuts.
 
-    constructor(props: TimerProps) {
-        super(props);
-
-        // Save the default time so we can restore it later.
-        this.defaultTime = this.props.time;
-
-        // Save the original document tile so we can restore it later.
-        this.domTitle = document.title;
-    }
-
-    /**
-     * updateTitle
-     *
-     * Update the document title with the current timer title and progress.
-     *
-     * @memberof Timer
-     * @since 1.0.0
-     */
-    updateTitle = () => {
-        document.title = `${
-            this.props.title ? this.props.title : 'Timer'
-        } \u2013 ${`${this.getHours()}:${this.getMinutes()}:${this.getSeconds()}`}`;
-    };
+    state = { ...this.props.controller.state };
 
     /**
      * displayNumber
@@ -86,11 +77,12 @@ export default class Timer extends React.Component<TimerProps, TimerState> {
      *
      * Display the amount of hours left.
      *
+     * @param {number} [time] Time in seconds, defaults to the displayed time
      * @memberof Timer
      * @since 1.0.0
      */
-    getHours = (): string => {
-        const hours = Math.floor(this.state.time / 3600);
+    getHours = (time: number = this.state.time): string => {
+        const hours = Math.floor(time / 3600);
         return this.displayNumber(hours);
     };
 
@@ -99,11 +91,12 @@ export default class Timer extends React.Component<TimerProps, TimerState> {
      *
      * Display the amount of minutes left.
      *
+     * @param {number} [time] Time in seconds, defaults to the displayed time
      * @memberof Timer
      * @since 1.0.0
      */
-    getMinutes = (): string => {
-        const minutes = Math.floor((this.state.time % 3600) / 60);
+    getMinutes = (time: number = this.state.time): string => {
+        const minutes = Math.floor((time % 3600) / 60);
         return this.displayNumber(minutes);
     };
 
@@ -112,123 +105,103 @@ export default class Timer extends React.Component<TimerProps, TimerState> {
      *
      * Display the amount of seconds left.
      *
+     * @param {number} [time] Time in seconds, defaults to the displayed time
      * @memberof Timer
      * @since 1.0.0
      */
-    getSeconds = (): string => {
-        const seconds = Math.floor((this.state.time % 3600) % 60);
+    getSeconds = (time: number = this.state.time): string => {
+        const seconds = Math.floor((time % 3600) % 60);
         return this.displayNumber(seconds);
     };
 
     /**
-     * countDown
+     * scheduleLabel
      *
-     * Count down the timer and update the saved time.
+     * Describes when the timer starts next.
+     * Starts within a day count down, later starts show the day and time.
      *
      * @memberof Timer
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    countDown = () => {
-        // Get the currently elapsed time and subtract from it.
-        this.elapsedTime = this.state.time;
-        this.elapsedTime--;
-
-        // Make sure the time can't go below 0.
-        if (this.elapsedTime < 0) {
-            this.elapsedTime = 0;
+    scheduleLabel = (): string => {
+        const { controller } = this.props;
+        const { untilStart } = this.state;
+        const label = controller.deadline || controller.startTime ? 'Next start' : 'Starts';
+
+        if (untilStart < 86400) {
+            return `${label} in ${this.getHours(untilStart)} : ${this.getMinutes(untilStart)} : ${this.getSeconds(
+                untilStart
+            )}`;
         }
 
-        // Update the time in our state.
-        this.setState({
-            time: this.elapsedTime
-        });
-
-        // Update the document title.
-        this.updateTitle();
+        return `${label} ${new Date(controller.schedule!.at).toLocaleString([], {
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit'
+        })}`;
     };
 
     /**
-     * startTimer
+     * handleKeydown
      *
-     * Start the countdown.
+     * Start, pause or stop the focused timer with the user's keyboard shortcuts.
      *
+     * @param {React.KeyboardEvent<HTMLDivElement>} $event
      * @memberof Timer
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    startTimer = () => {
-        // Let the timer know its started.
-        this.setState({
-            paused: false,
-            stopped: false
-        });
+    handleKeydown = ($event: React.KeyboardEvent<HTMLDivElement>) => {
+        // Alt and the arrow keys move the timer.
+        if ($event.altKey && this.props.onMove && $event.key.startsWith('Arrow')) {
+            $event.preventDefault();
+            this.props.onMove(['ArrowUp', 'ArrowLeft'].includes($event.key) ? -1 : 1);
+            return;
+        }
 
-        // Count down every second using a setInterval.
-        this.interval = window.setInterval(() => {
-            this.countDown();
-
-            // If we reach 0, we stop the timer.
-            if (this.state.time === 0) {
-                // Wait a short amount before resetting the timer.
-                setTimeout(() => {
-                    this.stopTimer();
-                }, 160);
-            }
-        }, 1000);
-    };
+        const action = this.shortcuts.match($event);
 
-    /**
-     * pauseTimer
-     *
-     * Temporarily pause the countdown.
-     *
-     * @memberof Timer
-     * @since 1.0.0
-     */
-    pauseTimer = () => {
-        // Pause the timer by changing the state.
-        this.setState({
-            paused: true
-        });
-
-        // Clear the interval so it stops counting down.
-        clearInterval(this.interval);
+        if (action === 'toggle') {
+            $event.preventDefault();
+            this.props.controller.toggleTimer();
+        } else if (action === 'stop') {
+            $event.preventDefault();
+            this.props.controller.stopTimer();
+        }
     };
 
     /**
-     * stopTimer
+     * handleDragStart
      *
-     * Pause the countdown and reset it to its original value.
+     * Start dragging the timer to another position.
      *
+     * @param {React.DragEvent<HTMLDivElement>} $event
      * @memberof Timer
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    stopTimer = () => {
-        // Pause the timer and restore the original time.
-        this.setState({
-            stopped: true,
-            time: this.defaultTime
-        });
+    handleDragStart = ($event: React.DragEvent<HTMLDivElement>) => {
+        // Some browsers only start dragging with data attached.
+        $event.dataTransfer.effectAllowed = 'move';
+        $event.dataTransfer.setData('text/plain', this.props.id.toString());
 
-        // Clear the interval so it stops counting down.
-        clearInterval(this.interval);
-
-        // Restore the original page title.
-        document.title = this.domTitle;
+        if (this.props.onDragStart) {
+            this.props.onDragStart();
+        }
     };
 
     /**
-     * handleClick
+     * handleDrop
      *
-     * Sets whether the play button needs to start or pause the countdown.
+     * Drop a dragged timer on this timer's position.
      *
+     * @param {React.DragEvent<HTMLDivElement>} $event
      * @memberof Timer
-     * @since 1.0.0
+     * @since 1.1.0
      */
-    handleClick = () => {
-        if (this.state.paused || this.state.stopped) {
-            this.startTimer();
-        } else {
-            this.pauseTimer();
+    handleDrop = ($event: React.DragEvent<HTMLDivElement>) => {
+        $event.preventDefault();
+
+        if (this.props.onDrop) {
+            this.props.onDrop();
         }
     };
 
@@ -274,61 +247,310 @@ export default class Timer extends React.Component<TimerProps, TimerState> {
         return <use href={`${Icons}#${icon}`} />;
     };
 
+    /**
+     * finishedActions
+     *
+     * Displays the snooze and dismiss buttons for a finished timer.
+     *
+     * @memberof Timer
+     * @since 1.1.0
+     */
+    finishedActions = (): JSX.Element => {
+        return (
+            <div className="mdf-timer__actions">
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Snooze timer"
+                    onClick={this.props.controller.snoozeTimer}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24">
+                        <use href={`${Icons}#replay`} />
+                    </svg>
+                </button>
+
+                <button
+                    className="mdf-button mdf-button--icon"
+                    aria-label="Dismiss timer"
+                    onClick={this.props.controller.stopTimer}
+                >
+                    <svg className="mdf-icon" viewBox="0 0 24 24">
+                        <use href={`${Icons}#done`} />
+                    </svg>
+                </button>
+            </div>
+        );
+    };
+
+    /**
+     * showProgress
+     *
+     * Displays a ring that fills up as the countdown runs out.
+     * Stopwatches have no end, so they don't show any progress.
+     *
+     * @memberof Timer
+     * @since 1.1.0
+     */
+    showProgress = (): JSX.Element | null => {
+        if (this.props.controller.isStopwatch()) return null;
+
+        const progress = this.state.finished ? 100 : this.props.controller.getProgress();
+        const circumference = 2 * Math.PI * this.progressRadius;
+
+        return (
+            <svg
+                className="mdf-timer__progress"
+                viewBox="0 0 24 24"
+                role="progressbar"
+                aria-label={`Progress of ${this.props.title ? this.props.title : 'Untitled'}`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress)}
+            >
+                <circle className="mdf-timer__progress-track" cx="12" cy="12" r={this.progressRadius} />
+                <circle
+                    className="mdf-timer__progress-bar"
+                    cx="12"
+                    cy="12"
+                    r={this.progressRadius}
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - progress / 100)}
+                />
+            </svg>
+        );
+    };
+
+    /**
+     * showLaps
+     *
+     * Displays the recorded stopwatch laps, newest first.
+     *
+     * @memberof Timer
+     * @since 1.1.0
+     */
+    showLaps = (): JSX.Element | null => {
+        const { laps } = this.state;
+
+        if (!laps.length) return null;
+
+        // Each lap shows the time since the previous lap.
+        const items = laps.map((lap, index) => {
+            const split = Math.floor((lap - (index ? laps[index - 1] : 0)) / 1000);
+
+            return (
+                <li key={index} className="mdf-timer__lap">
+                    <span>Lap {index + 1}</span>
+                    <span>{`${this.getHours(split)} : ${this.getMinutes(split)} : ${this.getSeconds(split)}`}</span>
+                </li>
+            );
+        });
+
+        return <ol className="mdf-timer__laps">{items.reverse()}</ol>;
+    };
+
+    /**
+     * showRounds
+     *
+     * Displays the latest completed repeat rounds with the time they finished at, newest first.
+     *
+     * @memberof Timer
+     * @since 1.1.0
+     */
+    showRounds = (): JSX.Element | null => {
+        const { completedRounds, rounds } = this.state;
+
+        if (!rounds.length) return null;
+
+        // Only the latest rounds are kept, so we count back from the completed ones.
+        const first = completedRounds - rounds.length + 1;
+        const items = rounds.map((end, index) => (
+            <li key={index} className="mdf-timer__lap">
+                <span>Round {first + index}</span>
+                <span>{new Date(end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </li>
+        ));
+
+        return (
+            <ol className="mdf-timer__laps" aria-label="Completed rounds">
+                {items.reverse()}
+            </ol>
+        );
+    };
+
     render() {
-        const { title, onClick, onKeydown } = this.props;
-        const { paused, stopped } = this.state;
+        const {
+            accent,
+            controller,
+            dragging,
+            dropTarget,
+            icon,
+            title,
+            onClick,
+            onDragEnd,
+            onDragEnter,
+            onDragStart,
+            onEdit,
+            onKeydown,
+            onMove,
+            onSelect,
+            selectable,
+            selected
+        } = this.props;
+        const { finished, paused, phase, stopped } = this.state;
+        const stopwatch = controller.isStopwatch();
 
         return (
-            <div className={`mdf-timer ${!paused && !stopped ? 'mdf-timer--active' : ''}`}>
+            <div
+                id={`timer-${this.props.id}`}
+                className={`mdf-timer ${!paused && !stopped ? 'mdf-timer--active' : ''} ${
+                    finished ? 'mdf-timer--finished' : ''
+                } ${dragging ? 'mdf-timer--dragging' : ''} ${dropTarget ? 'mdf-timer--drop-target' : ''} ${
+                    selectable && selected ? 'mdf-timer--selected' : ''
+                } ${accent ? `mdf-timer--accent-${accent}` : ''}`}
+                tabIndex={0}
+                aria-label={`Timer ${title ? title : 'Untitled'}`}
+                aria-keyshortcuts={onMove ? 'Alt+ArrowUp Alt+ArrowDown' : undefined}
+                draggable={onDragStart ? true : undefined}
+                onKeyDown={this.handleKeydown}
+                onDragStart={onDragStart ? this.handleDragStart : undefined}
+                onDragEnter={onDragEnter}
+                onDragOver={onDragStart ? $event => $event.preventDefault() : undefined}
+                onDrop={onDragStart ? this.handleDrop : undefined}
+                onDragEnd={onDragEnd}
+            >
                 <div className="mdf-timer__header">
-                    <span className="mdf-timer__title">{title ? title : 'Untitled'}</span>
-
-                    <button
-                        className="mdf-button mdf-button--icon"
-                        onClick={onClick ? onClick : undefined}
-                        onKeyDown={onKeydown ? $event => onKeydown($event) : undefined}
-                    >
-                        <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
-                            <use href={`${Icons}#delete`} />
-                        </svg>
-                    </button>
+                    {selectable && (
+                        <button
+                            className="mdf-button mdf-button--icon mdf-timer__select"
+                            role="checkbox"
+                            aria-checked={!!selected}
+                            aria-label={`Select ${title ? title : 'Untitled'}`}
+                            onClick={onSelect}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#${selected ? 'checkbox' : 'checkbox-outline'}`} />
+                            </svg>
+                        </button>
+                    )}
+
+                    <span className="mdf-timer__title">
+                        {icon && (
+                            <svg className="mdf-icon mdf-timer__icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#${icon}`} />
+                            </svg>
+                        )}
+                        {title ? title : 'Untitled'}
+                    </span>
+
+                    <div className="mdf-timer__controls">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Edit timer"
+                            onClick={onEdit ? onEdit : undefined}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#edit`} />
+                            </svg>
+                        </button>
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Remove timer"
+                            onClick={onClick ? onClick : undefined}
+                            onKeyDown={onKeydown ? $event => onKeydown($event) : undefined}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#delete`} />
+                            </svg>
+                        </button>
+                    </div>
                 </div>
 
-                <div
-                    className="mdf-timer__time"
-                    role="timer"
-                    aria-live="polite"
-                    aria-atomic="true"
-                    aria-label={`Timer ${title ? title : 'Untitled'}`}
-                >
-                    <span>{`${this.getHours()} : ${this.getMinutes()} : ${this.getSeconds()}`}</span>
+                <div className="mdf-timer__time">
+                    {this.showProgress()}
+                    <span
+                        role="timer"
+                        aria-live="polite"
+                        aria-atomic="true"
+                        aria-label={`Timer ${title ? title : 'Untitled'}`}
+                    >{`${this.getHours()} : ${this.getMinutes()} : ${this.getSeconds()}`}</span>
                 </div>
 
-                <div className="mdf-timer__actions">
-                    <button
-                        className="mdf-button mdf-button--icon"
-                        aria-label={this.playPauseLabel()}
-                        onClick={this.handleClick}
-                    >
-                        <svg className="mdf-icon" viewBox="0 0 24 24">
-                            {this.playPauseIcon()}
-                        </svg>
-                    </button>
-
-                    <button className="mdf-button mdf-button--icon" aria-label="Stop timer" onClick={this.stopTimer}>
-                        <svg className="mdf-icon" viewBox="0 0 24 24">
-                            <use href={`${Icons}#stop`} />
-                        </svg>
-                    </button>
-                </div>
+                {controller.isSequence() && (
+                    <div className="mdf-timer__phase">
+                        {controller.data.phases![phase].name} &middot; {controller.phaseLabel(phase)}
+                    </div>
+                )}
+
+                {controller.isRepeating() && <div className="mdf-timer__phase">{controller.roundLabel()}</div>}
+
+                {controller.schedule && (
+                    <div className="mdf-timer__schedule">
+                        <span>{this.scheduleLabel()}</span>
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label="Cancel scheduled start"
+                            onClick={controller.cancelSchedule}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24" aria-hidden="true">
+                                <use href={`${Icons}#clear`} />
+                            </svg>
+                        </button>
+                    </div>
+                )}
+
+                {finished ? (
+                    this.finishedActions()
+                ) : (
+                    <div className="mdf-timer__actions">
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label={this.playPauseLabel()}
+                            onClick={controller.toggleTimer}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24">
+                                {this.playPauseIcon()}
+                            </svg>
+                        </button>
+
+                        {stopwatch && (
+                            <button
+                                className="mdf-button mdf-button--icon"
+                                aria-label="Record lap"
+                                disabled={paused || stopped}
+                                onClick={controller.recordLap}
+                            >
+                                <svg className="mdf-icon" viewBox="0 0 24 24">
+                                    <use href={`${Icons}#add`} />
+                                </svg>
+                            </button>
+                        )}
+
+                        <button
+                            className="mdf-button mdf-button--icon"
+                            aria-label={stopwatch ? 'Reset stopwatch' : 'Stop timer'}
+                            onClick={controller.stopTimer}
+                        >
+                            <svg className="mdf-icon" viewBox="0 0 24 24">
+                                <use href={`${Icons}#stop`} />
+                            </svg>
+                        </button>
+                    </div>
+                )}
+
+                {stopwatch && this.showLaps()}
+                {controller.isRepeating() && this.showRounds()}
             </div>
         );
     }
 
     componentDidMount() {
-        // Set the start time on mount.
-        this.setState({
-            time: this.props.time
-        });
+        // Render the run state whenever it changes.
+        this.props.controller.onChange(state => this.setState(state));
+        this.setState({ ...this.props.controller.state });
+    }
+
+    componentWillUnmount() {
+        // The controller keeps running without us.
+        this.props.controller.onChange(null);
     }
 }
@@ -0,0 +1,71 @@
+import { endedRounds, nextOccurrence, parseDuration } from './helpers';
+
+describe('parseDuration', () => {
+    test('reads numbers with units', () => {
+        expect(parseDuration('1h30m')).toBe(5400);
+        expect(parseDuration('90s')).toBe(90);
+        expect(parseDuration('2.5 min')).toBe(150);
+        expect(parseDuration('1 hour and 5 minutes')).toBe(3900);
+        expect(parseDuration('2 hrs, 10 secs')).toBe(7210);
+    });
+
+    test('reads clock notation', () => {
+        expect(parseDuration('1:15:00')).toBe(4500);
+        expect(parseDuration('4:30')).toBe(270);
+    });
+
+    test('reads plain numbers as minutes', () => {
+        expect(parseDuration('25')).toBe(1500);
+        expect(parseDuration(' 0.5 ')).toBe(30);
+    });
+
+    test('rejects invalid durations', () => {
+        expect(parseDuration('1:75')).toBeNull();
+        expect(parseDuration('5ms')).toBeNull();
+        expect(parseDuration('abc')).toBeNull();
+        expect(parseDuration('')).toBeNull();
+        expect(parseDuration('0')).toBeNull();
+        expect(parseDuration('10 minutes later')).toBeNull();
+    });
+});
+
+describe('nextOccurrence', () => {
+    // Monday, 19 October 2026 at 23:50 local time.
+    const after = new Date(2026, 9, 19, 23, 50).getTime();
+
+    test('picks the time later the same day', () => {
+        expect(nextOccurrence('23:55', [], after)).toBe(new Date(2026, 9, 19, 23, 55).getTime());
+    });
+
+    test('rolls over midnight', () => {
+        expect(nextOccurrence('00:10', [], after)).toBe(new Date(2026, 9, 20, 0, 10).getTime());
+        expect(nextOccurrence('23:50', [], after)).toBe(new Date(2026, 9, 20, 23, 50).getTime());
+    });
+
+    test('only starts on the given weekdays', () => {
+        expect(nextOccurrence('00:10', [5], after)).toBe(new Date(2026, 9, 23, 0, 10).getTime());
+        expect(nextOccurrence('08:00', [1], after)).toBe(new Date(2026, 9, 26, 8, 0).getTime());
+        expect(nextOccurrence('23:55', [1, 3], after)).toBe(new Date(2026, 9, 19, 23, 55).getTime());
+    });
+});
+
+describe('endedRounds', () => {
+    test('counts the rounds that ended by now', () => {
+        expect(endedRounds(1000, 500, Infinity, 5, 999)).toEqual({ count: 0, ends: [] });
+        expect(endedRounds(1000, 500, Infinity, 5, 1000)).toEqual({ count: 1, ends: [1000] });
+        expect(endedRounds(1000, 500, Infinity, 5, 2400)).toEqual({ count: 3, ends: [1000, 1500, 2000] });
+    });
+
+    test('stops at the limit', () => {
+        expect(endedRounds(1000, 500, 2, 5, 9000)).toEqual({ count: 2, ends: [1000, 1500] });
+    });
+
+    test('only returns the latest end times', () => {
+        const day = 24 * 3600000;
+
+        expect(endedRounds(0, 60000, Infinity, 2, 3 * day)).toEqual({
+            count: 4321,
+            ends: [3 * day - 60000, 3 * day]
+        });
+    });
+});
@@ -1,3 +1,6 @@
+import Storage from './storage';
+import { TimerData } from './types';
+
 /**
  * hasScrollbar
  *
@@ -102,3 +105,161 @@ export function debounce(func: (...args: unknown[]) => void, timeout: number): (
 
     return debouncedFunc;
 }
+
+/**
+ * generateUUID
+ *
+ * Generate a unique id, e.g. for a new timer.
+ *
+ * @export
+ * @returns {number}
+ * @version 1.0.0
+ */
+export function generateUUID(): number {
+    // Set min and max values.
+    const min = 0;
+    const max = 8;
+
+    // This will generate an Array holding different integers.
+    const baseArray = window.crypto.getRandomValues(new Uint32Array(max));
+
+    // We use this seed to pick a random number between the set min and the max range.
+    const seed = Math.floor(Math.random() * (max - 1 - min) + min);
+
+    // Select the UUID from the array.
+    const uuid = baseArray[seed];
+
+    // Return the UUID as an absolute value.
+    return Math.abs(uuid + Date.now());
+}
+
+/**
+ * nextTimerOrder
+ *
+ * Get the position after the last stored timer, so new timers are added at the end of the Landing slide.
+ *
+ * @export
+ * @param {Storage} storage Storage wrapper holding the timers
+ * @returns {Promise<number>}
+ * @version 1.0.0
+ */
+export async function nextTimerOrder(storage: Storage): Promise<number> {
+    const timers = await Promise.all((await storage.keys()).map(key => storage.get(key).catch(() => null)));
+
+    // Corrupt records and timers without an order don't take up a position.
+    return timers.reduce<number>((next, timer) => {
+        const order = timer ? (timer as TimerData).order : undefined;
+
+        return typeof order === 'number' && order >= next ? order + 1 : next;
+    }, 0);
+}
+
+/**
+ * parseDuration
+ *
+ * Parse a duration typed by the user into seconds.
+ * Understands units (`1h30m`, `90s`, `2.5 min`), clock notation (`1:15:00`, `4:30`) and plain numbers as minutes (`25`).
+ *
+ * @export
+ * @param {string} text The entered duration
+ * @returns {(number | null)} The duration in seconds, `null` if the text is not a valid duration
+ * @version 1.0.0
+ */
+export function parseDuration(text: string): number | null {
+    const value = text.trim().toLowerCase();
+
+    // Seconds per unit, matched by the first letter.
+    const units: Record<string, number> = { h: 3600, m: 60, s: 1 };
+
+    let time: number;
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        // Plain numbers are minutes.
+        time = parseFloat(value) * 60;
+    } else if (/^\d+(:[0-5]?\d){1,2}$/.test(value)) {
+        // Clock notation is `m:ss` or `h:mm:ss`.
+        time = value.split(':').reduce((total, part) => total * 60 + parseInt(part), 0);
+    } else {
+        const unitCheck = /(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)(?![a-z])/g;
+
+        // Everything besides the numbers with units may only be spaces, commas or `and`.
+        if (!value.length || value.replace(unitCheck, '').replace(/,|\band\b/g, '').trim().length) {
+            return null;
+        }
+
+        time = Array.from(value.matchAll(unitCheck)).reduce(
+            (total, match) => total + parseFloat(match[1]) * units[match[2][0]],
+            0
+        );
+    }
+
+    // Only whole seconds are counted.
+    time = Math.round(time);
+
+    return time > 0 ? time : null;
+}
+
+/**
+ * nextOccurrence
+ *
+ * Find the next occurrence of the given time of day, e.g. every weekday at `08:30`.
+ * Uses the local calendar, so midnight and daylight saving time changes are handled by the `Date` API.
+ *
+ * @export
+ * @param {string} time Time of day (`HH:MM`)
+ * @param {number[]} days Weekdays (0 is Sunday) to consider, every day if empty
+ * @param {number} [after] Timestamp (in ms) the occurrence has to follow, defaults to now
+ * @returns {number} Timestamp (in ms) of the next occurrence
+ * @version 1.0.0
+ */
+export function nextOccurrence(time: string, days: number[], after: number = Date.now()): number {
+    const [hours, minutes] = time.split(':').map(part => parseInt(part));
+    const date = new Date(after);
+
+    date.setHours(hours, minutes, 0, 0);
+
+    // Move on to the next matching day, at most a week ahead.
+    for (let i = 0; i <= 7; i++) {
+        if (date.getTime() > after && (!days.length || days.includes(date.getDay()))) {
+            break;
+        }
+
+        date.setDate(date.getDate() + 1);
+        date.setHours(hours, minutes, 0, 0);
+    }
+
+    return date.getTime();
+}
+
+/**
+ * endedRounds
+ *
+ * Work out how many repeat rounds ended by now, starting with the round that ends at the given deadline.
+ * Only the end times of the latest rounds are calculated, so rounds missed over days don't pile up.
+ *
+ * @export
+ * @param {number} deadline Timestamp (in ms) the current round ends at
+ * @param {number} cycle Length (in ms) of a round and the break after it
+ * @param {number} limit Most rounds that may end, e.g. to leave the last round of a counted repeat running
+ * @param {number} kept Number of end times to return
+ * @param {number} [now] Timestamp (in ms) to count up to, defaults to now
+ * @returns {{ count: number; ends: number[] }} Number of ended rounds and the end times of the latest ones
+ * @version 1.0.0
+ */
+export function endedRounds(
+    deadline: number,
+    cycle: number,
+    limit: number,
+    kept: number,
+    now: number = Date.now()
+): { count: number; ends: number[] } {
+    // Rounds without any duration would all end at once.
+    const count = deadline > now ? 0 : Math.min(limit, Math.floor((now - deadline) / Math.max(1, cycle)) + 1);
+    const ends: number[] = [];
+
+    for (let i = Math.max(0, count - kept); i < count; i++) {
+        ends.push(deadline + i * cycle);
+    }
+
+    return { count: count, ends: ends };
+}
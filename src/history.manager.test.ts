@@ -0,0 +1,102 @@
+import HistoryManager from './history.manager';
+import { HistoryEvent } from './types';
+
+const history = new HistoryManager();
+const at = (hours: number, minutes: number = 0, day: number = 19) => new Date(2026, 9, day, hours, minutes).getTime();
+
+beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(at(12));
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('log', () => {
+    test('stores the events by the day they happened on', async () => {
+        localStorage.clear();
+
+        await history.log(1, 'start', 'Tea', at(23, 50, 18));
+        await history.log(1, 'finish', 'Tea', at(0, 10));
+
+        expect(await history.storage.keys()).toEqual(['history-2026-10-18', 'history-2026-10-19']);
+        expect(await history.load()).toEqual([
+            { id: 1, type: 'start', time: at(23, 50, 18), title: 'Tea' },
+            { id: 1, type: 'finish', time: at(0, 10), title: 'Tea' }
+        ]);
+    });
+});
+
+describe('getSegments', () => {
+    test('pairs each start with the event that ended it', () => {
+        const events: HistoryEvent[] = [
+            { id: 1, type: 'start', time: at(9) },
+            { id: 2, type: 'start', time: at(9, 30) },
+            { id: 1, type: 'pause', time: at(10) },
+            { id: 2, type: 'finish', time: at(10, 30) },
+            { id: 1, type: 'start', time: at(11) },
+            { id: 1, type: 'cancel', time: at(11, 15) }
+        ];
+
+        expect(history.getSegments(events)).toEqual([
+            { id: 1, start: at(9), end: at(10) },
+            { id: 2, start: at(9, 30), end: at(10, 30) },
+            { id: 1, start: at(11), end: at(11, 15) }
+        ]);
+    });
+
+    test('counts open runs up to now', () => {
+        expect(history.getSegments([{ id: 1, type: 'start', time: at(11) }])).toEqual([
+            { id: 1, start: at(11), end: at(12) }
+        ]);
+    });
+
+    test('ignores events without a start', () => {
+        expect(history.getSegments([{ id: 1, type: 'finish', time: at(11) }])).toEqual([]);
+    });
+});
+
+describe('getDailyTotals', () => {
+    test('splits runs at midnight', () => {
+        const events: HistoryEvent[] = [
+            { id: 1, type: 'start', time: at(23, 30, 17) },
+            { id: 1, type: 'finish', time: at(0, 45, 18) }
+        ];
+
+        expect(history.getDailyTotals(events)).toEqual({
+            '2026-10-17': 30 * 60000,
+            '2026-10-18': 45 * 60000
+        });
+    });
+
+    test('counts open runs until now', () => {
+        const events: HistoryEvent[] = [
+            { id: 1, type: 'start', time: at(8) },
+            { id: 1, type: 'pause', time: at(9) },
+            { id: 2, type: 'start', time: at(23, 0, 18) }
+        ];
+
+        expect(history.getDailyTotals(events)).toEqual({
+            '2026-10-18': 3600000,
+            '2026-10-19': 13 * 3600000
+        });
+    });
+});
+
+describe('getTimerStats', () => {
+    test('counts finished and cancelled runs', () => {
+        const events: HistoryEvent[] = [
+            { id: 1, type: 'start', time: at(8), title: 'Tea' },
+            { id: 1, type: 'pause', time: at(8, 5) },
+            { id: 1, type: 'start', time: at(8, 10) },
+            { id: 1, type: 'finish', time: at(8, 15) },
+            { id: 1, type: 'start', time: at(9), title: 'Green tea' },
+            { id: 1, type: 'cancel', time: at(9, 10) }
+        ];
+
+        expect(history.getTimerStats(events)).toEqual([
+            { id: 1, title: 'Green tea', runs: 2, finished: 1, time: 20 * 60000 }
+        ]);
+    });
+});
@@ -0,0 +1,202 @@
+import Storage from './storage';
+import { HistoryEvent, HistoryEventType, TimerStats } from './types';
+
+/**
+ * HistoryManager
+ *
+ * Record when timers run and summarize the recorded history.
+ * Events are stored per day under the `history-` prefix, e.g. `history-2021-06-14`.
+ *
+ * @export
+ * @class HistoryManager
+ * @version 1.0.0
+ */
+export default class HistoryManager {
+    static queue: Promise<void> = Promise.resolve(); // Keeps writes to the same day from overwriting each other.
+
+    storage = new Storage('history'); // Storage wrapper to handle history data.
+
+    /**
+     * dayKey
+     *
+     * Get the storage key for the day of the given timestamp.
+     *
+     * @param {number} time Timestamp (in ms)
+     * @return {*} {string}
+     * @memberof HistoryManager
+     * @since 1.0.0
+     */
+    dayKey = (time: number): string => {
+        const date = new Date(time);
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+
+        return `${date.getFullYear()}-${month}-${day}`;
+    };
+
+    /**
+     * log
+     *
+     * Append an event to the history.
+     *
+     * @param {number} id Id of the timer
+     * @param {HistoryEventType} type What happened to the timer
+     * @param {string} [title] Title of the timer
+     * @param {number} [time] Timestamp (in ms) of the event, defaults to now
+     * @return {*} {Promise<void>}
+     * @memberof HistoryManager
+     * @since 1.0.0
+     */
+    log = (id: number, type: HistoryEventType, title?: string, time: number = Date.now()): Promise<void> => {
+        const key = this.dayKey(time);
+        const event: HistoryEvent = { id: id, type: type, time: time, title: title };
+
+        // Wait for earlier events to be written first.
+        HistoryManager.queue = HistoryManager.queue
+            .then(async () => {
+                const events = await this.storage.get(key).catch(() => null);
+
+                await this.storage.set(key, [...(Array.isArray(events) ? events : []), event]);
+            })
+            .catch(() => {
+                // A lost event shouldn't block the ones after it.
+            });
+
+        return HistoryManager.queue;
+    };
+
+    /**
+     * load
+     *
+     * Load all recorded events, oldest first.
+     *
+     * @return {*} {Promise<HistoryEvent[]>}
+     * @memberof HistoryManager
+     * @since 1.0.0
+     */
+    load = async (): Promise<HistoryEvent[]> => {
+        const events: HistoryEvent[] = [];
+
+        for (const key of await this.storage.keys()) {
+            const day = await this.storage.get(key).catch(() => null);
+
+            // Skip days that can't be read.
+            if (Array.isArray(day)) {
+                events.push(...day);
+            }
+        }
+
+        return events.sort((a, b) => a.time - b.time);
+    };
+
+    /**
+     * getSegments
+     *
+     * Pair each start event with the pause, finish or cancel event that ended it.
+     * Timers that are still running count up to now.
+     *
+     * @param {HistoryEvent[]} events Recorded events, oldest first
+     * @return {*} {{ id: number; start: number; end: number }[]}
+     * @memberof HistoryManager
+     * @since 1.0.0
+     */
+    getSegments = (events: HistoryEvent[]): { id: number; start: number; end: number }[] => {
+        const segments: { id: number; start: number; end: number }[] = [];
+        const running = new Map<number, number>();
+
+        for (const event of events) {
+            const start = running.get(event.id);
+
+            if (event.type === 'start') {
+                running.set(event.id, event.time);
+            } else if (start !== undefined) {
+                segments.push({ id: event.id, start: start, end: event.time });
+                running.delete(event.id);
+            }
+        }
+
+        // Count the open segments up to now.
+        running.forEach((start, id) => segments.push({ id: id, start: start, end: Date.now() }));
+
+        return segments;
+    };
+
+    /**
+     * getTimerStats
+     *
+     * Count the runs and running time per timer.
+     * A run starts with a start event and ends once the timer is finished or cancelled.
+     *
+     * @param {HistoryEvent[]} events Recorded events, oldest first
+     * @return {*} {TimerStats[]} Stats sorted by running time, longest first
+     * @memberof HistoryManager
+     * @since 1.0.0
+     */
+    getTimerStats = (events: HistoryEvent[]): TimerStats[] => {
+        const stats = new Map<number, TimerStats>();
+        const active = new Set<number>();
+
+        for (const event of events) {
+            const entry = stats.get(event.id) || { id: event.id, runs: 0, finished: 0, time: 0 };
+
+            // Show the latest known title.
+            if (event.title !== undefined) {
+                entry.title = event.title;
+            }
+
+            if (event.type === 'start') {
+                active.add(event.id);
+            } else if (event.type !== 'pause' && active.has(event.id)) {
+                entry.runs++;
+
+                if (event.type === 'finish') {
+                    entry.finished++;
+                }
+
+                active.delete(event.id);
+            }
+
+            stats.set(event.id, entry);
+        }
+
+        // Add up the running time.
+        for (const segment of this.getSegments(events)) {
+            stats.get(segment.id)!.time += segment.end - segment.start;
+        }
+
+        return Array.from(stats.values()).sort((a, b) => b.time - a.time);
+    };
+
+    /**
+     * getDailyTotals
+     *
+     * Add up the running time of all timers per day.
+     * Segments running past midnight are split between both days.
+     *
+     * @param {HistoryEvent[]} events Recorded events, oldest first
+     * @return {*} {Record<string, number>} Running time (in ms) by day key
+     * @memberof HistoryManager
+     * @since 1.0.0
+     */
+    getDailyTotals = (events: HistoryEvent[]): Record<string, number> => {
+        const totals: Record<string, number> = {};
+
+        for (const segment of this.getSegments(events)) {
+            let start = segment.start;
+
+            while (start < segment.end) {
+                // Find the next midnight.
+                const midnight = new Date(start);
+                midnight.setHours(24, 0, 0, 0);
+
+                const end = Math.min(segment.end, midnight.getTime());
+                const key = this.dayKey(start);
+
+                totals[key] = (totals[key] || 0) + end - start;
+                start = end;
+            }
+        }
+
+        return totals;
+    };
+}
@@ -0,0 +1,94 @@
+import PreferencesManager from './preferences.manager';
+
+/**
+ * NotificationManager
+ *
+ * Handle permissions for and dispatching of desktop notifications.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/Notifications_API
+ *
+ * @export
+ * @class NotificationManager
+ * @version 1.0.0
+ */
+export default class NotificationManager {
+    preferences = new PreferencesManager(); // Holds the user's notification setting.
+
+    /**
+     * isSupported
+     *
+     * Check whether the browser offers the Notifications API.
+     *
+     * @memberof NotificationManager
+     * @since 1.0.0
+     */
+    isSupported = (): boolean => {
+        return 'Notification' in window;
+    };
+
+    /**
+     * isEnabled
+     *
+     * Check whether the user opted in and the browser granted permission.
+     *
+     * @memberof NotificationManager
+     * @since 1.0.0
+     */
+    isEnabled = (): boolean => {
+        return (
+            this.isSupported() &&
+            Notification.permission === 'granted' &&
+            this.preferences.get('notifications') === 'on'
+        );
+    };
+
+    /**
+     * requestPermission
+     *
+     * Ask the user for permission to show notifications.
+     *
+     * @return {*} {Promise<boolean>} Whether permission was granted
+     * @memberof NotificationManager
+     * @since 1.0.0
+     */
+    requestPermission = async (): Promise<boolean> => {
+        if (!this.isSupported()) {
+            return false;
+        }
+
+        // No need to ask again if the user already made a decision.
+        if (Notification.permission !== 'default') {
+            return Notification.permission === 'granted';
+        }
+
+        return (await Notification.requestPermission()) === 'granted';
+    };
+
+    /**
+     * notify
+     *
+     * Show a notification if the user enabled them.
+     *
+     * @param {string} title Notification title
+     * @param {string} body Notification text
+     * @param {string} [tag] Identifier that replaces older notifications with the same tag
+     * @param {() => void} [onClick] Called when the user clicks the notification
+     * @memberof NotificationManager
+     * @since 1.0.0
+     */
+    notify = (title: string, body: string, tag?: string, onClick?: () => void) => {
+        if (!this.isEnabled()) return;
+
+        const notification = new Notification(title, { body: body, tag: tag });
+
+        notification.onclick = () => {
+            // Bring the app back into view.
+            window.focus();
+
+            if (onClick) {
+                onClick();
+            }
+
+            notification.close();
+        };
+    };
+}
@@ -1,3 +1,5 @@
+import { removeClassByPrefix } from './helpers';
+
 /**
  * PreferencesManager
  *
@@ -10,8 +12,13 @@
 export default class PreferencesManager {
     accent: string | null; // Holds current accent.
     accents: string[]; // List of all available accents.
+    favicon: string | null; // Holds whether the favicon shows the progress of running timers, `on` or `off`.
     gradient: string | null; // Holds current gradient.
     gradients: string[]; // List of all available gradients.
+    icons: string[]; // List of all icons available for timers.
+    notifications: string | null; // Holds whether desktop notifications are `on` or `off`.
+    settings: string[]; // List of all stored settings.
+    shortcuts: string | null; // Holds whether keyboard shortcuts are `on` or `off`.
     theme: string | null; // Holds current theme.
 
     constructor() {
@@ -38,9 +45,18 @@ export default class PreferencesManager {
             'Quepal'
         ];
 
+        // Create list of all icons available for timers, taken from the icon sprite.
+        this.icons = ['favorite', 'home', 'account', 'mail', 'checklist', 'comment', 'image', 'theme', 'chart', 'lock'];
+
+        // Create list of all stored settings.
+        this.settings = ['accent', 'favicon', 'gradient', 'notifications', 'shortcuts', 'shortcut-keys', 'theme'];
+
         // Store current user preferences.
         this.accent = this.get('accent');
+        this.favicon = this.get('favicon');
         this.gradient = this.get('gradient');
+        this.notifications = this.get('notifications');
+        this.shortcuts = this.get('shortcuts');
         this.theme = this.get('theme');
 
         // If no user preferences exist yet, save default values.
@@ -65,7 +81,7 @@ export default class PreferencesManager {
      *
      * Save given setting to localStorage.
      *
-     * @param {string} setting Setting to save `accent`, `gradient` or `theme`
+     * @param {string} setting Setting to save `accent`, `favicon`, `gradient`, `notifications`, `shortcuts`, `shortcut-keys` or `theme`
      * @param {string} value Setting value
      * @memberof PreferencesManager
      * @since 1.0.0
@@ -94,12 +110,25 @@ export default class PreferencesManager {
         if (!this.theme) {
             this.set('theme', 'light');
         }
+
+        if (!this.notifications) {
+            this.set('notifications', 'off');
+        }
+
+        if (!this.shortcuts) {
+            this.set('shortcuts', 'on');
+        }
+
+        if (!this.favicon) {
+            this.set('favicon', 'on');
+        }
     };
 
     /**
      * applyPreferences
      *
      * Apply user preferences to the DOM.
+     * Replaces previously applied preferences, e.g. after they were changed in another tab.
      *
      * @memberof PreferencesManager
      * @since 1.0.0
@@ -109,16 +138,18 @@ export default class PreferencesManager {
         const appContainer = document.querySelector('.mdf-app');
 
         if (appContainer) {
+            // Remove the previous gradient.
+            removeClassByPrefix(appContainer as HTMLElement, 'mdf-gradient-');
+
             // Add the gradient to the app container.
             appContainer.classList.add(`mdf-gradient-${this.gradient ? this.gradient : this.get('gradient')}`);
         }
 
-        // Add the accent class to the document's body.
+        // Replace the accent class on the document's body.
+        removeClassByPrefix(document.body, 'mdf-accent-');
         document.body.classList.add(`mdf-accent-${this.accent ? this.accent : this.get('accent')}`);
 
-        // Add the theme class to the document's body.
-        if (this.theme && this.theme === 'dark') {
-            document.body.classList.add('mdf-theme-dark');
-        }
+        // Toggle the theme class on the document's body.
+        document.body.classList.toggle('mdf-theme-dark', (this.theme ? this.theme : this.get('theme')) === 'dark');
     };
 }
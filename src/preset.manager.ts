@@ -0,0 +1,115 @@
+import Storage from './storage';
+import { generateUUID, nextOccurrence, nextTimerOrder } from './helpers';
+import { SCHEMA_VERSION, isTimerPreset } from './schema';
+import { TimerData, TimerPreset } from './types';
+
+/**
+ * PresetManager
+ *
+ * Handle the library of timer presets.
+ * Offers a few built-in presets, templates saved by the user are stored under the `preset-` prefix.
+ *
+ * @export
+ * @class PresetManager
+ * @version 1.0.0
+ */
+export default class PresetManager {
+    storage = new Storage('preset'); // Storage wrapper to handle the user's templates.
+    timerStorage = new Storage('timer'); // Storage wrapper to save timers created from a preset.
+
+    // Holds the built-in presets.
+    defaults: TimerPreset[] = [
+        { id: 1, title: 'Tea', time: 180, mode: 'countdown', icon: 'favorite', builtIn: true },
+        { id: 2, title: 'Standup', time: 900, mode: 'countdown', icon: 'comment', builtIn: true },
+        { id: 3, title: 'Plank', time: 60, mode: 'countdown', icon: 'account', builtIn: true }
+    ];
+
+    /**
+     * load
+     *
+     * Load the built-in presets followed by the user's templates in alphabetical order.
+     * Corrupt templates are left out.
+     *
+     * @return {*} {Promise<TimerPreset[]>}
+     * @memberof PresetManager
+     * @since 1.0.0
+     */
+    load = async (): Promise<TimerPreset[]> => {
+        const templates: TimerPreset[] = [];
+
+        for (const key of await this.storage.keys()) {
+            const template = await this.storage.get(key).catch(() => null);
+
+            if (isTimerPreset(template)) {
+                templates.push({ ...template, builtIn: false });
+            }
+        }
+
+        return [...this.defaults, ...templates.sort((a, b) => a.title.localeCompare(b.title))];
+    };
+
+    /**
+     * save
+     *
+     * Save the given timer settings as a new template.
+     *
+     * @param {Omit<TimerPreset, 'id'>} preset The timer settings
+     * @return {*} {Promise<TimerPreset>} The saved template
+     * @memberof PresetManager
+     * @since 1.0.0
+     */
+    save = (preset: Omit<TimerPreset, 'id'>): Promise<TimerPreset> => {
+        const template: TimerPreset = { ...preset, id: generateUUID(), builtIn: undefined };
+
+        return this.storage.set(template.id.toString(), template).then(() => template);
+    };
+
+    /**
+     * delete
+     *
+     * Remove the given template.
+     *
+     * @param {TimerPreset} preset The template to remove
+     * @return {*} {Promise<void>}
+     * @memberof PresetManager
+     * @since 1.0.0
+     */
+    delete = (preset: TimerPreset): Promise<void> => {
+        return this.storage.delete(preset.id.toString());
+    };
+
+    /**
+     * createTimer
+     *
+     * Create and save a new timer from the given preset, after the existing timers.
+     * Countdowns to a time of day run until its next occurrence.
+     *
+     * @param {TimerPreset} preset The preset to use
+     * @return {*} {Promise<TimerData>} The new timer
+     * @memberof PresetManager
+     * @since 1.0.0
+     */
+    createTimer = async (preset: TimerPreset): Promise<TimerData> => {
+        const id = generateUUID();
+        const target = preset.targetTime ? nextOccurrence(preset.targetTime, []) : undefined;
+        const data: TimerData = {
+            id: id,
+            time: target ? Math.ceil((target - Date.now()) / 1000) : preset.time,
+            title: preset.title,
+            mode: preset.mode,
+            phases: preset.phases,
+            target: target,
+            targetTime: preset.targetTime,
+            repeat: preset.repeat,
+            accent: preset.accent,
+            icon: preset.icon,
+            sound: preset.sound,
+            order: await nextTimerOrder(this.timerStorage),
+            version: SCHEMA_VERSION
+        };
+
+        await this.timerStorage.set(id.toString(), data);
+
+        return data;
+    };
+}
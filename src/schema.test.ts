@@ -0,0 +1,56 @@
+import { SCHEMA_VERSION, isNewerRecord, isTimerData, migrateTimer } from './schema';
+
+describe('isTimerData', () => {
+    test('accepts valid timers', () => {
+        const phases = [{ name: 'Work', round: 1, time: 60 }];
+
+        expect(isTimerData({ id: 1, time: 60 })).toBe(true);
+        expect(isTimerData({ id: 1, time: 60, title: 'Tea', mode: 'stopwatch', laps: [1000, 2500] })).toBe(true);
+        expect(isTimerData({ id: 1, time: 60, mode: 'sequence', phases: phases })).toBe(true);
+    });
+
+    test('rejects invalid timers', () => {
+        expect(isTimerData(null)).toBe(false);
+        expect(isTimerData('timer')).toBe(false);
+        expect(isTimerData({ time: 60 })).toBe(false);
+        expect(isTimerData({ id: 1, time: -1 })).toBe(false);
+        expect(isTimerData({ id: 1, time: 60, title: 5 })).toBe(false);
+        expect(isTimerData({ id: 1, time: 60, mode: 'alarm' })).toBe(false);
+        expect(isTimerData({ id: 1, time: 60, phases: [{ name: 'Work' }] })).toBe(false);
+        expect(isTimerData({ id: 1, time: 60, targetTime: '9:30' })).toBe(false);
+    });
+});
+
+describe('migrateTimer', () => {
+    test('upgrades records without a version', () => {
+        expect(migrateTimer({ id: '12', time: '300', title: 'Tea' })).toEqual({
+            id: 12,
+            time: 300,
+            title: 'Tea',
+            mode: 'countdown',
+            version: SCHEMA_VERSION
+        });
+    });
+
+    test('keeps current records as they are', () => {
+        const data = { id: 12, time: 300, mode: 'stopwatch', version: SCHEMA_VERSION };
+
+        expect(migrateTimer(data)).toEqual(data);
+    });
+
+    test('rejects corrupt and newer records', () => {
+        expect(migrateTimer(null)).toBeNull();
+        expect(migrateTimer([])).toBeNull();
+        expect(migrateTimer({ id: 'abc', time: 300 })).toBeNull();
+        expect(migrateTimer({ id: 12, time: 300, version: SCHEMA_VERSION + 1 })).toBeNull();
+    });
+});
+
+describe('isNewerRecord', () => {
+    test('tells newer records apart from corrupt ones', () => {
+        expect(isNewerRecord({ id: 12, time: 300, version: SCHEMA_VERSION + 1 })).toBe(true);
+        expect(isNewerRecord({ id: 12, time: 300, version: SCHEMA_VERSION })).toBe(false);
+        expect(isNewerRecord({ id: 'abc', time: 300 })).toBe(false);
+        expect(isNewerRecord(null)).toBe(false);
+    });
+});
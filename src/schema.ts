@@ -0,0 +1,206 @@
+import { TimerData, TimerGroup, TimerPreset, TimerRepeat, TimerSchedule } from './types';
+
+// Current version of the stored timer records.
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Holds the migration steps, keyed by the version they upgrade from.
+ * Each step upgrades a record to the next version.
+ */
+const migrations: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 1 records only knew `id`, `time` and `title`, sometimes with numbers stored as strings.
+    1: data => ({
+        ...data,
+        id: typeof data.id === 'string' ? parseInt(data.id) : data.id,
+        time: typeof data.time === 'string' ? parseInt(data.time) : data.time,
+        mode: data.mode ? data.mode : 'countdown'
+    })
+};
+
+/**
+ * isTimerData
+ *
+ * Check whether the given value has the shape of a timer.
+ *
+ * @export
+ * @param {unknown} value The value to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isTimerData(value: unknown): value is TimerData {
+    if (!value || typeof value !== 'object') return false;
+
+    const data = value as Record<string, unknown>;
+    const isOptional = (key: string, type: string) => data[key] === undefined || typeof data[key] === type;
+
+    return (
+        typeof data.id === 'number' &&
+        isFinite(data.id) &&
+        typeof data.time === 'number' &&
+        data.time >= 0 &&
+        isOptional('title', 'string') &&
+        isOptional('deadline', 'number') &&
+        isOptional('remaining', 'number') &&
+        isOptional('elapsed', 'number') &&
+        isOptional('startTime', 'number') &&
+        isOptional('phase', 'number') &&
+        isOptional('target', 'number') &&
+        isOptional('waitUntil', 'number') &&
+        isOptional('completedRounds', 'number') &&
+        (data.targetTime === undefined ||
+            (typeof data.targetTime === 'string' && /^\d{2}:\d{2}$/.test(data.targetTime))) &&
+        isOptional('order', 'number') &&
+        isOptional('group', 'number') &&
+        isOptional('accent', 'string') &&
+        isOptional('icon', 'string') &&
+        isOptional('sound', 'string') &&
+        (data.mode === undefined || ['countdown', 'sequence', 'stopwatch'].includes(data.mode as string)) &&
+        (data.phases === undefined ||
+            (Array.isArray(data.phases) &&
+                data.phases.every(
+                    phase =>
+                        phase &&
+                        typeof phase.name === 'string' &&
+                        typeof phase.round === 'number' &&
+                        typeof phase.time === 'number'
+                ))) &&
+        (data.laps === undefined || (Array.isArray(data.laps) && data.laps.every(lap => typeof lap === 'number'))) &&
+        (data.schedule === undefined || isTimerSchedule(data.schedule)) &&
+        (data.repeat === undefined || isTimerRepeat(data.repeat)) &&
+        (data.rounds === undefined ||
+            (Array.isArray(data.rounds) && data.rounds.every(round => typeof round === 'number')))
+    );
+}
+
+/**
+ * isTimerSchedule
+ *
+ * Check whether the given value has the shape of a timer schedule.
+ *
+ * @export
+ * @param {unknown} value The value to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isTimerSchedule(value: unknown): value is TimerSchedule {
+    if (!value || typeof value !== 'object') return false;
+
+    const data = value as Record<string, unknown>;
+
+    return (
+        typeof data.at === 'number' &&
+        isFinite(data.at) &&
+        (data.time === undefined || (typeof data.time === 'string' && /^\d{2}:\d{2}$/.test(data.time))) &&
+        (data.days === undefined ||
+            (Array.isArray(data.days) && data.days.every(day => typeof day === 'number' && day >= 0 && day <= 6)))
+    );
+}
+
+/**
+ * isTimerRepeat
+ *
+ * Check whether the given value has the shape of a repeat setting.
+ *
+ * @export
+ * @param {unknown} value The value to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isTimerRepeat(value: unknown): value is TimerRepeat {
+    if (!value || typeof value !== 'object') return false;
+
+    const data = value as Record<string, unknown>;
+
+    return (
+        (data.count === undefined || (typeof data.count === 'number' && data.count >= 1)) &&
+        (data.delay === undefined || (typeof data.delay === 'number' && data.delay >= 0))
+    );
+}
+
+/**
+ * isTimerGroup
+ *
+ * Check whether the given value has the shape of a timer group.
+ *
+ * @export
+ * @param {unknown} value The value to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isTimerGroup(value: unknown): value is TimerGroup {
+    if (!value || typeof value !== 'object') return false;
+
+    const data = value as Record<string, unknown>;
+
+    return (
+        typeof data.id === 'number' &&
+        isFinite(data.id) &&
+        typeof data.name === 'string' &&
+        (data.collapsed === undefined || typeof data.collapsed === 'boolean')
+    );
+}
+
+/**
+ * isTimerPreset
+ *
+ * Check whether the given value has the shape of a timer preset.
+ * The timer settings are checked the same way as those of a timer.
+ *
+ * @export
+ * @param {unknown} value The value to check
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isTimerPreset(value: unknown): value is TimerPreset {
+    return isTimerData(value) && typeof value.title === 'string';
+}
+
+/**
+ * isNewerRecord
+ *
+ * Check whether the given stored record was written by a newer version of the app.
+ * Such records can't be read, but they are not corrupt either.
+ *
+ * @export
+ * @param {unknown} value The stored record
+ * @returns {boolean}
+ * @version 1.0.0
+ */
+export function isNewerRecord(value: unknown): boolean {
+    if (!value || typeof value !== 'object') return false;
+
+    const version = (value as Record<string, unknown>).version;
+
+    return typeof version === 'number' && version > SCHEMA_VERSION;
+}
+
+/**
+ * migrateTimer
+ *
+ * Upgrade the given stored record to the current schema version and validate it.
+ * Records without a version are treated as version 1.
+ *
+ * @export
+ * @param {unknown} value The stored record
+ * @returns {(TimerData | null)} The upgraded timer, or `null` if the record is corrupt
+ * @version 1.0.0
+ */
+export function migrateTimer(value: unknown): TimerData | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+    let data = value as Record<string, unknown>;
+    let version = typeof data.version === 'number' ? data.version : 1;
+
+    // We can't read records written by a newer version of the app.
+    if (version > SCHEMA_VERSION) return null;
+
+    // Run each migration step in order.
+    while (version < SCHEMA_VERSION) {
+        data = migrations[version](data);
+        version++;
+    }
+
+    data = { ...data, version: SCHEMA_VERSION };
+
+    return isTimerData(data) ? data : null;
+}
@@ -0,0 +1,73 @@
+/**
+ * ServiceWorkerManager
+ *
+ * Registers the service worker that makes the app installable and keeps it working offline.
+ * The service worker is only generated for production builds.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/Service_Worker_API
+ *
+ * @export
+ * @class ServiceWorkerManager
+ * @version 1.0.0
+ */
+export default class ServiceWorkerManager {
+    url: string = `${process.env.PUBLIC_URL}/service-worker.js`; // URL of the generated service worker.
+
+    /**
+     * isSupported
+     *
+     * Check whether the service worker can be registered.
+     * It has to be served from the same origin as the app, e.g. not from a CDN.
+     *
+     * @return {*} {boolean}
+     * @memberof ServiceWorkerManager
+     * @since 1.0.0
+     */
+    isSupported = (): boolean => {
+        return (
+            process.env.NODE_ENV === 'production' &&
+            'serviceWorker' in navigator &&
+            new URL(process.env.PUBLIC_URL, window.location.href).origin === window.location.origin
+        );
+    };
+
+    /**
+     * register
+     *
+     * Register the service worker once the page has loaded, so it doesn't slow down the first visit.
+     *
+     * @param {() => void} [onUpdate] Called when a new version was installed and waits for all tabs to close
+     * @memberof ServiceWorkerManager
+     * @since 1.0.0
+     */
+    register = (onUpdate?: () => void) => {
+        if (!this.isSupported()) return;
+
+        const register = () => {
+            navigator.serviceWorker
+                .register(this.url)
+                .then(registration => {
+                    registration.onupdatefound = () => {
+                        const worker = registration.installing;
+
+                        if (!worker) return;
+
+                        worker.onstatechange = () => {
+                            // A new worker that is installed while an older one controls the page is an update.
+                            if (worker.state === 'installed' && navigator.serviceWorker.controller && onUpdate) {
+                                onUpdate();
+                            }
+                        };
+                    };
+                })
+                .catch(() => {
+                    // The app keeps working while online.
+                });
+        };
+
+        if (document.readyState === 'complete') {
+            register();
+        } else {
+            window.addEventListener('load', register);
+        }
+    };
+}
@@ -0,0 +1,38 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { StaleWhileRevalidate } from 'workbox-strategies';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Take control of open pages once the first service worker is activated.
+clientsClaim();
+
+// Precache the build, including the bundled fonts and the `icons.svg` sprite.
+// The list of files is injected by the build.
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve the app shell for all navigation requests, so the app also opens offline.
+// URLs starting with `/_` and URLs that point to a file are left alone.
+const fileExtensionRegexp = new RegExp('/[^/?]+\\.[^/]+$');
+
+registerRoute(({ request, url }: { request: Request; url: URL }) => {
+    if (request.mode !== 'navigate') return false;
+    if (url.pathname.startsWith('/_')) return false;
+    if (url.pathname.match(fileExtensionRegexp)) return false;
+
+    return true;
+}, createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`));
+
+// Cache the files from the `public` folder that are not part of the build, e.g. the manifest and favicon.
+registerRoute(
+    ({ url }: { url: URL }) => url.origin === self.location.origin && /\.(ico|json|png|svg|txt)$/.test(url.pathname),
+    new StaleWhileRevalidate({
+        cacheName: 'public',
+        plugins: [new ExpirationPlugin({ maxEntries: 20 })]
+    })
+);
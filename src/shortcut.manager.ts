@@ -0,0 +1,167 @@
+import React from 'react';
+import PreferencesManager from './preferences.manager';
+
+export type ShortcutAction = 'toggle' | 'stop' | 'add' | 'back' | 'help';
+
+/**
+ * ShortcutManager
+ *
+ * Handle the user's keyboard shortcuts.
+ * Key bindings are stored as JSON in the `shortcut-keys` preference, missing actions use the default key.
+ *
+ * @export
+ * @class ShortcutManager
+ * @version 1.0.0
+ */
+export default class ShortcutManager {
+    preferences = new PreferencesManager(); // Holds the user's shortcut settings.
+
+    // Holds the available actions with their default keys.
+    actions: { action: ShortcutAction; key: string; label: string }[] = [
+        { action: 'toggle', key: ' ', label: 'Start or pause the focused timer' },
+        { action: 'stop', key: 's', label: 'Stop the focused timer' },
+        { action: 'add', key: 'n', label: 'Add a new timer' },
+        { action: 'back', key: 'Escape', label: 'Return to your timers' },
+        { action: 'help', key: '?', label: 'Show the keyboard shortcuts' }
+    ];
+
+    /**
+     * isEnabled
+     *
+     * Check whether the user turned keyboard shortcuts on.
+     *
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    isEnabled = (): boolean => {
+        return this.preferences.get('shortcuts') !== 'off';
+    };
+
+    /**
+     * getKeys
+     *
+     * Get the key bound to each action.
+     *
+     * @return {*} {Record<ShortcutAction, string>}
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    getKeys = (): Record<ShortcutAction, string> => {
+        let stored: Partial<Record<ShortcutAction, string>> = {};
+
+        try {
+            stored = JSON.parse(this.preferences.get('shortcut-keys') || '{}');
+        } catch {
+            // Fall back to the default keys.
+        }
+
+        const keys = {} as Record<ShortcutAction, string>;
+
+        for (const { action, key } of this.actions) {
+            keys[action] = typeof stored[action] === 'string' ? stored[action]! : key;
+        }
+
+        return keys;
+    };
+
+    /**
+     * setKey
+     *
+     * Bind the given key to the action.
+     *
+     * @param {ShortcutAction} action The action to bind
+     * @param {string} key The key as reported by `KeyboardEvent.key`
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    setKey = (action: ShortcutAction, key: string) => {
+        this.preferences.set('shortcut-keys', JSON.stringify({ ...this.getKeys(), [action]: this.normalize(key) }));
+    };
+
+    /**
+     * resetKeys
+     *
+     * Restore the default keys for all actions.
+     *
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    resetKeys = () => {
+        this.preferences.set('shortcut-keys', '{}');
+    };
+
+    /**
+     * normalize
+     *
+     * Letters are matched regardless of the shift key.
+     *
+     * @param {string} key The key as reported by `KeyboardEvent.key`
+     * @return {*} {string}
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    normalize = (key: string): string => {
+        return key.length === 1 ? key.toLowerCase() : key;
+    };
+
+    /**
+     * describe
+     *
+     * Get a readable name for the given key.
+     *
+     * @param {string} key The key as reported by `KeyboardEvent.key`
+     * @return {*} {string}
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    describe = (key: string): string => {
+        const names: Record<string, string> = { ' ': 'Space', Escape: 'Esc' };
+
+        return names[key] ? names[key] : key.length === 1 ? key.toUpperCase() : key;
+    };
+
+    /**
+     * isIgnored
+     *
+     * Check whether the given event should be left alone.
+     * Typing into form fields, key combinations and keys that activate a focused button are not shortcuts.
+     *
+     * @param {KeyboardEvent | React.KeyboardEvent} $event
+     * @return {*} {boolean}
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    isIgnored = ($event: KeyboardEvent | React.KeyboardEvent): boolean => {
+        const target = $event.target as HTMLElement;
+
+        return (
+            !this.isEnabled() ||
+            $event.defaultPrevented ||
+            $event.ctrlKey ||
+            $event.metaKey ||
+            $event.altKey ||
+            target.isContentEditable ||
+            ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName) ||
+            (['BUTTON', 'A'].includes(target.tagName) && ($event.key === ' ' || $event.key === 'Enter'))
+        );
+    };
+
+    /**
+     * match
+     *
+     * Find the action bound to the key of the given event.
+     *
+     * @param {KeyboardEvent | React.KeyboardEvent} $event
+     * @return {*} {(ShortcutAction | null)}
+     * @memberof ShortcutManager
+     * @since 1.0.0
+     */
+    match = ($event: KeyboardEvent | React.KeyboardEvent): ShortcutAction | null => {
+        if (this.isIgnored($event)) return null;
+
+        const keys = this.getKeys();
+        const key = this.normalize($event.key);
+
+        return this.actions.map(({ action }) => action).find(action => keys[action] === key) || null;
+    };
+}
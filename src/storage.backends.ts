@@ -0,0 +1,141 @@
+/**
+ * StorageBackend
+ *
+ * Interface every storage backend implements.
+ * Values are stored as strings, (de)serialization is left to the `Storage` class.
+ *
+ * @export
+ * @interface StorageBackend
+ */
+export interface StorageBackend {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    keys(): Promise<string[]>;
+}
+
+/**
+ * LocalStorageBackend
+ *
+ * Storage backend using the localStorage API.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage
+ *
+ * @export
+ * @class LocalStorageBackend
+ * @implements {StorageBackend}
+ * @version 1.0.0
+ */
+export class LocalStorageBackend implements StorageBackend {
+    async get(key: string): Promise<string | null> {
+        await Promise.resolve();
+        return localStorage.getItem(key);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await Promise.resolve();
+        localStorage.setItem(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        await Promise.resolve();
+        localStorage.removeItem(key);
+    }
+
+    async keys(): Promise<string[]> {
+        await Promise.resolve();
+        return Object.keys(localStorage);
+    }
+}
+
+/**
+ * IndexedDBBackend
+ *
+ * Storage backend using the IndexedDB API.
+ * Doesn't block the main thread and isn't limited by the localStorage quota.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API
+ *
+ * @export
+ * @class IndexedDBBackend
+ * @implements {StorageBackend}
+ * @version 1.0.0
+ */
+export class IndexedDBBackend implements StorageBackend {
+    db: IDBDatabase; // The opened database.
+    static storeName: string = 'entries'; // Name of the object store holding all values.
+
+    constructor(db: IDBDatabase) {
+        this.db = db;
+    }
+
+    /**
+     * open
+     *
+     * Open (and create if necessary) the database.
+     * Rejects if IndexedDB is unavailable, e.g. in some private browsing modes.
+     *
+     * @static
+     * @param {string} name Database name
+     * @return {*} {Promise<IndexedDBBackend>}
+     * @memberof IndexedDBBackend
+     * @since 1.0.0
+     */
+    static open(name: string): Promise<IndexedDBBackend> {
+        return new Promise((resolve, reject) => {
+            if (!('indexedDB' in window) || !window.indexedDB) {
+                reject(new Error('IndexedDB is not supported'));
+                return;
+            }
+
+            const request = window.indexedDB.open(name, 1);
+
+            // Create the object store on first use.
+            request.onupgradeneeded = () => request.result.createObjectStore(IndexedDBBackend.storeName);
+
+            request.onsuccess = () => resolve(new IndexedDBBackend(request.result));
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('IndexedDB is blocked'));
+        });
+    }
+
+    /**
+     * request
+     *
+     * Run the given request against the object store and resolve with its result.
+     *
+     * @template T
+     * @param {IDBTransactionMode} mode Transaction mode
+     * @param {(store: IDBObjectStore) => IDBRequest<T>} run Creates the request
+     * @return {*} {Promise<T>}
+     * @memberof IndexedDBBackend
+     * @since 1.0.0
+     */
+    request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const transaction = this.db.transaction(IndexedDBBackend.storeName, mode);
+            const request = run(transaction.objectStore(IndexedDBBackend.storeName));
+
+            // Only resolve once the transaction is done, so writes are guaranteed to be stored.
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    async get(key: string): Promise<string | null> {
+        const value = await this.request('readonly', store => store.get(key));
+        return typeof value === 'string' ? value : null;
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await this.request('readwrite', store => store.put(value, key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(key));
+    }
+
+    async keys(): Promise<string[]> {
+        const keys = await this.request('readonly', store => store.getAllKeys());
+        return keys.map(key => key.toString());
+    }
+}
@@ -1,98 +1,223 @@
-import { TimerData } from './types';
+import { IndexedDBBackend, LocalStorageBackend, StorageBackend } from './storage.backends';
+import { TimerData, TimerGroup, TimerPreset } from './types';
 
 /**
  * Storage
  *
- * Basic wrapper for the localStorage API.
+ * Basic key/value wrapper around a pluggable storage backend.
+ * Uses IndexedDB when available and falls back to the localStorage API.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API
  * @see https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage
  *
  * @export
  * @class Storage
- * @version 1.0.0
+ * @version 1.1.0
  */
 export default class Storage {
+    static backend: StorageBackend = new LocalStorageBackend(); // Backend shared by all instances.
+    static channel: BroadcastChannel | null =
+        'BroadcastChannel' in window ? new BroadcastChannel('countdown-storage') : null; // Notifies other tabs of changes.
+    static migratedPrefixes: string[] = ['timer', 'group', 'preset', 'history', 'quarantine']; // Prefixes moved over from localStorage.
+
+    customBackend?: StorageBackend; // Backend used instead of the shared one.
     prefix: string;
 
     /**
      * Creates an instance of Storage.
      *
      * @param {string} [prefix] Supplied prefix is applied to all requests.
+     * @param {StorageBackend} [backend] Backend to use instead of the shared one.
      * @memberof Storage
      * @since 1.0.0
      */
-    constructor(prefix?: string) {
+    constructor(prefix?: string, backend?: StorageBackend) {
         if (prefix) {
             this.prefix = prefix;
         } else {
             this.prefix = '';
         }
+
+        this.customBackend = backend;
+    }
+
+    /**
+     * backend
+     *
+     * The backend used for all requests.
+     * Resolved on every request, so instances created before `Storage.init()` pick up the selected backend.
+     *
+     * @readonly
+     * @type {StorageBackend}
+     * @memberof Storage
+     * @since 1.1.0
+     */
+    get backend(): StorageBackend {
+        return this.customBackend ? this.customBackend : Storage.backend;
+    }
+
+    /**
+     * init
+     *
+     * Select the shared backend at startup.
+     * Switches to IndexedDB if possible and moves existing localStorage data over once.
+     * Rejects if the data could not be moved, the localStorage backend stays in use then.
+     *
+     * @static
+     * @return {*} {Promise<void>}
+     * @memberof Storage
+     * @since 1.1.0
+     */
+    static async init(): Promise<void> {
+        let backend: IndexedDBBackend;
+
+        try {
+            backend = await IndexedDBBackend.open('countdown');
+        } catch {
+            // Keep using localStorage.
+            return;
+        }
+
+        // Copy existing data over from localStorage.
+        // If that fails, e.g. because the quota is exceeded, keep using localStorage with all data in place.
+        const keys = Object.keys(localStorage).filter(key =>
+            Storage.migratedPrefixes.some(prefix => key.startsWith(`${prefix}-`))
+        );
+
+        for (const key of keys) {
+            await backend.set(key, localStorage.getItem(key) as string);
+        }
+
+        // Only remove the data from localStorage once all of it was copied.
+        for (const key of keys) {
+            localStorage.removeItem(key);
+        }
+
+        Storage.backend = backend;
+    }
+
+    /**
+     * onChange
+     *
+     * Listen for keys changed by other tabs.
+     * Changes made in the current tab are not reported.
+     *
+     * @static
+     * @param {(key: string) => void} listener Called with the changed key
+     * @memberof Storage
+     * @since 1.1.0
+     */
+    static onChange(listener: (key: string) => void) {
+        if (Storage.channel) {
+            Storage.channel.addEventListener('message', (event: MessageEvent<{ key: string }>) =>
+                listener(event.data.key)
+            );
+        }
     }
 
     /**
      * get
      *
-     * Wrapper for `localStorage.getItem()`.
+     * Look up the given key in the backend.
      * Converts returned data with `JSON.parse()`.
      *
-     * @param {string} key Key to look for in localStorage
+     * @param {string} key Key to look for in storage
      * @return {*} {Promise<unknown>}
      * @example Storage.get('animals');
      * @memberof Storage
      * @since 1.0.0
      */
     async get(key: string): Promise<unknown> {
-        await Promise.resolve();
-        return JSON.parse(localStorage.getItem(this.prefixed(key)) as string);
+        return JSON.parse((await this.backend.get(this.prefixed(key))) as string);
     }
 
     /**
      * set
      *
-     * Wrapper for `localStorage.setItem()`.
+     * Save the given value to the backend.
      * Converts supplied value with `JSON.stringify()`.
      *
-     * @param {string} key Identifier in localStorage
-     * @param {string | number | unknown[] | Record<string, unknown>| TimerData} value Data to save
+     * @param {string} key Identifier in storage
+     * @param {string | number | unknown[] | Record<string, unknown> | TimerData | TimerGroup | TimerPreset} value Data to save
      * @example Storage.set('animals', ['cats', 'dogs'])
      * @memberof Storage
      * @since 1.0.0
      */
-    async set(key: string, value: string | number | unknown[] | Record<string, unknown> | TimerData): Promise<void> {
-        await Promise.resolve();
-        localStorage.setItem(this.prefixed(key), JSON.stringify(value));
+    async set(
+        key: string,
+        value: string | number | unknown[] | Record<string, unknown> | TimerData | TimerGroup | TimerPreset
+    ): Promise<void> {
+        await this.backend.set(this.prefixed(key), JSON.stringify(value));
+        this.broadcast(key);
     }
 
     /**
      * delete
      *
-     * Wrapper for `localStorage.removeItem()`.
+     * Remove the given key from the backend.
      *
-     * @param {string} key Identifier in localStorage
+     * @param {string} key Identifier in storage
      * @example Storage.delete('animals');
      * @memberof Storage
      * @since 1.0.0
      */
     async delete(key: string): Promise<void> {
-        await Promise.resolve();
-        localStorage.removeItem(this.prefixed(key));
+        await this.backend.delete(this.prefixed(key));
+        this.broadcast(key);
+    }
+
+    /**
+     * quarantine
+     *
+     * Move the raw value of the given key out of the way, e.g. when it is corrupt.
+     * The value is kept under the `quarantine-` prefix so it can still be recovered by hand.
+     *
+     * @param {string} key Identifier in storage
+     * @example Storage.quarantine('animals');
+     * @memberof Storage
+     * @since 1.1.0
+     */
+    async quarantine(key: string): Promise<void> {
+        const value = await this.backend.get(this.prefixed(key));
+
+        if (value !== null) {
+            await this.backend.set(`quarantine-${this.prefixed(key)}`, value);
+        }
+
+        await this.backend.delete(this.prefixed(key));
+        this.broadcast(key);
     }
 
     /**
      * keys
      *
-     * Returns an Array holding all localStorage keys.
+     * Returns an Array holding all storage keys.
      *
      * @return {*} {string[]}
      * @memberof Storage
      * @since 1.0.0
      */
     async keys(): Promise<string[]> {
-        await Promise.resolve();
+        const keys = await this.backend.keys();
 
         if (this.prefix.length) {
-            return Object.keys(localStorage).filter(key => key.includes(this.prefix));
+            return keys.filter(key => key.startsWith(`${this.prefix}-`));
         } else {
-            return Object.keys(localStorage);
+            return keys;
+        }
+    }
+
+    /**
+     * broadcast
+     *
+     * Let other tabs know the given key changed.
+     *
+     * @param {string} key Identifier in storage
+     * @memberof Storage
+     * @since 1.1.0
+     */
+    private broadcast(key: string) {
+        if (Storage.channel) {
+            Storage.channel.postMessage({ key: this.prefixed(key) });
         }
     }
 
@@ -0,0 +1,291 @@
+import AlarmManager from './alarm.manager';
+import Storage from './storage';
+import TimerController from './timer.controller';
+import { TimerData } from './types';
+
+// Let the pending storage writes settle.
+const flush = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+const storage = new Storage('timer');
+const start = new Date(2026, 9, 19, 12, 0).getTime();
+
+beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(start);
+    localStorage.clear();
+    AlarmManager.leader = true;
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('countdown', () => {
+    test('counts down against the deadline', () => {
+        const controller = new TimerController({ id: 1, time: 90 }, {});
+
+        controller.startTimer();
+        expect(controller.deadline).toBe(start + 90000);
+
+        // Delayed ticks don't make the countdown drift.
+        jest.setSystemTime(start + 30000);
+        jest.advanceTimersByTime(250);
+        expect(controller.state.time).toBe(60);
+
+        controller.dispose();
+    });
+
+    test('keeps the time left while paused', () => {
+        const controller = new TimerController({ id: 1, time: 90 }, {});
+
+        controller.startTimer();
+        jest.advanceTimersByTime(30000);
+        controller.pauseTimer();
+
+        expect(controller.remaining).toBe(60000);
+        expect(controller.deadline).toBe(0);
+
+        jest.advanceTimersByTime(60000);
+        expect(controller.getTimeLeft()).toBe(60);
+
+        controller.startTimer();
+        expect(controller.deadline).toBe(start + 90000 + 60000);
+
+        controller.dispose();
+    });
+
+    test('finishes once the time ran out', () => {
+        const onFinish = jest.fn();
+        const controller = new TimerController({ id: 1, time: 90, title: 'Tea' }, { onFinish: onFinish });
+        const log = jest.spyOn(controller.history, 'log');
+
+        controller.startTimer();
+        jest.advanceTimersByTime(90000);
+
+        expect(controller.state).toMatchObject({ finished: true, paused: true, time: 0 });
+        expect(onFinish).toHaveBeenCalledWith(1, 'Tea');
+        expect(log).toHaveBeenCalledWith(1, 'finish', 'Tea');
+
+        controller.dispose();
+    });
+
+    test('counts down the snooze time after finishing', () => {
+        const controller = new TimerController({ id: 1, time: 90 }, {});
+
+        controller.startTimer();
+        jest.advanceTimersByTime(90000);
+        controller.snoozeTimer();
+
+        expect(controller.state.finished).toBe(false);
+        expect(controller.deadline).toBe(start + 90000 + controller.snoozeTime * 1000);
+
+        jest.advanceTimersByTime(controller.snoozeTime * 1000);
+        expect(controller.state.finished).toBe(true);
+
+        controller.dispose();
+    });
+
+    test('resumes from the stored run state', () => {
+        const controller = new TimerController({ id: 1, time: 90, deadline: start + 20000, paused: false }, {});
+
+        expect(controller.isRunning()).toBe(true);
+        expect(controller.state.time).toBe(20);
+
+        controller.dispose();
+    });
+});
+
+describe('hasOpenRun', () => {
+    test('only counts runs that were started and not ended', () => {
+        const controller = new TimerController({ id: 1, time: 90 }, {});
+
+        expect(controller.hasOpenRun()).toBe(false);
+
+        controller.startTimer();
+        expect(controller.hasOpenRun()).toBe(true);
+
+        jest.advanceTimersByTime(1000);
+        controller.pauseTimer();
+        expect(controller.hasOpenRun()).toBe(true);
+
+        controller.stopTimer();
+        expect(controller.hasOpenRun()).toBe(false);
+
+        controller.startTimer();
+        jest.advanceTimersByTime(90000);
+        expect(controller.hasOpenRun()).toBe(false);
+
+        controller.dispose();
+    });
+
+    test('records a cancel only for open runs', () => {
+        const controller = new TimerController({ id: 1, time: 90 }, {});
+        const log = jest.spyOn(controller.history, 'log');
+
+        controller.stopTimer();
+        expect(log).not.toHaveBeenCalled();
+
+        controller.startTimer();
+        controller.stopTimer();
+        expect(log).toHaveBeenLastCalledWith(1, 'cancel', undefined);
+
+        controller.dispose();
+    });
+});
+
+describe('sequence', () => {
+    const phases = [
+        { name: 'Work', round: 1, time: 60 },
+        { name: 'Break', round: 1, time: 30 },
+        { name: 'Work', round: 2, time: 60 }
+    ];
+
+    test('moves through its phases', () => {
+        const onMessage = jest.fn();
+        const controller = new TimerController({ id: 1, time: 150, mode: 'sequence', phases: phases }, { onMessage });
+
+        controller.startTimer();
+        expect(controller.state.time).toBe(60);
+
+        jest.advanceTimersByTime(60000);
+        expect(controller.state.phase).toBe(1);
+        expect(controller.state.time).toBe(30);
+        expect(onMessage).toHaveBeenLastCalledWith('Untitled: Break (round 1 of 2)');
+
+        jest.advanceTimersByTime(90000);
+        expect(controller.state).toMatchObject({ finished: true, phase: 2 });
+
+        controller.dispose();
+    });
+
+    test('skips the phases that ran out while asleep', () => {
+        const controller = new TimerController({ id: 1, time: 150, mode: 'sequence', phases: phases }, {});
+
+        controller.startTimer();
+        jest.setSystemTime(start + 100000);
+        jest.advanceTimersByTime(250);
+
+        expect(controller.state.phase).toBe(2);
+        expect(controller.deadline).toBe(start + 150000);
+
+        controller.dispose();
+    });
+});
+
+describe('stopwatch', () => {
+    test('counts up and records laps', () => {
+        const controller = new TimerController({ id: 1, time: 0, mode: 'stopwatch' }, {});
+
+        controller.startTimer();
+        jest.advanceTimersByTime(5000);
+        controller.recordLap();
+        jest.advanceTimersByTime(3000);
+        controller.pauseTimer();
+
+        expect(controller.state.laps).toEqual([5000]);
+        expect(controller.elapsed).toBe(8000);
+        expect(controller.state.time).toBe(8);
+
+        controller.dispose();
+    });
+});
+
+describe('two tabs', () => {
+    // Opens the same running timer in the leader and another tab, only the other tab keeps counting.
+    const openTabs = async (data: TimerData) => {
+        await storage.set(data.id.toString(), data);
+
+        const leader = new TimerController(data, {});
+        const follower = new TimerController(data, {});
+
+        // The leader sits in the background, its ticks are throttled.
+        clearInterval(leader.interval);
+
+        return { leader, follower, log: jest.spyOn(leader.history, 'log') };
+    };
+
+    test('the leader records a finish the other tab saved first', async () => {
+        const data: TimerData = { id: 1, time: 60, title: 'Tea', deadline: start + 60000, paused: false };
+        const { leader, follower, log } = await openTabs(data);
+
+        AlarmManager.leader = false;
+        jest.advanceTimersByTime(60000);
+        await flush();
+
+        expect(follower.state.finished).toBe(true);
+
+        AlarmManager.leader = true;
+        leader.update((await storage.get('1')) as TimerData);
+
+        expect(leader.state.finished).toBe(true);
+        expect(log).toHaveBeenCalledTimes(1);
+        expect(log).toHaveBeenCalledWith(1, 'finish', 'Tea', start + 60000);
+    });
+
+    test('the leader records the rounds the other tab moved on to', async () => {
+        const data: TimerData = {
+            id: 2,
+            time: 60,
+            title: 'Stretch',
+            deadline: start + 60000,
+            paused: false,
+            repeat: { count: 3, delay: 10 }
+        };
+        const { leader, follower, log } = await openTabs(data);
+
+        AlarmManager.leader = false;
+        jest.advanceTimersByTime(60000);
+        await flush();
+
+        expect(follower.state.rounds).toEqual([start + 60000]);
+
+        AlarmManager.leader = true;
+        leader.update((await storage.get('2')) as TimerData);
+
+        expect(log.mock.calls).toEqual([
+            [2, 'finish', 'Stretch', start + 60000],
+            [2, 'start', 'Stretch', start + 70000]
+        ]);
+        expect(leader.state.rounds).toEqual([start + 60000]);
+    });
+});
+
+describe('repeat rounds', () => {
+    test('take a break between rounds and finish after the last one', () => {
+        const controller = new TimerController({ id: 1, time: 60, repeat: { count: 2, delay: 10 } }, {});
+
+        controller.startTimer();
+        jest.advanceTimersByTime(60000);
+
+        expect(controller.state.completedRounds).toBe(1);
+        expect(controller.state.rounds).toEqual([start + 60000]);
+        expect(controller.waitUntil).toBe(start + 70000);
+        expect(controller.roundLabel()).toBe('Break before round 2 of 2');
+
+        jest.advanceTimersByTime(70000);
+
+        expect(controller.state).toMatchObject({ completedRounds: 2, finished: true });
+        expect(controller.state.rounds).toEqual([start + 60000, start + 130000]);
+
+        controller.dispose();
+    });
+
+    test('catch up on the rounds missed while asleep and only keep the latest', () => {
+        const data: TimerData = { id: 3, time: 60, deadline: start + 60000, paused: false, repeat: {} };
+        const controller = new TimerController(data, {});
+        const log = jest.spyOn(controller.history, 'log');
+
+        // The device sleeps for three days, then the interval ticks again.
+        jest.setSystemTime(start + 3 * 24 * 3600000 + 30000);
+        jest.advanceTimersByTime(250);
+
+        expect(controller.state.completedRounds).toBe(4320);
+        expect(controller.state.rounds).toHaveLength(TimerController.roundsKept);
+        expect(controller.state.rounds[TimerController.roundsKept - 1]).toBe(start + 4320 * 60000);
+        expect(controller.roundLabel()).toBe('Round 4321');
+        expect(log.mock.calls.length).toBeLessThanOrEqual(2 * TimerController.roundsKept);
+        expect(controller.deadline).toBe(start + 4321 * 60000);
+
+        controller.dispose();
+    });
+});
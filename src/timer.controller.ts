@@ -0,0 +1,1177 @@
+import AlarmManager from './alarm.manager';
+import HistoryManager from './history.manager';
+import Storage from './storage';
+import { endedRounds, nextOccurrence } from './helpers';
+import { TimerData, TimerRun, TimerRunState } from './types';
+
+// Callbacks a controller reports its timer's events to.
+export interface TimerEvents {
+    onFinish?: (id: number, title?: string) => void;
+    onMessage?: (message: string) => void;
+    onRun?: (id: number, run: TimerRun | null) => void;
+}
+
+/**
+ * TimerController
+ *
+ * Holds the run state of a single timer and runs it, whether the timer is rendered or not.
+ * Counts down against the clock, moves through sequence phases and repeat rounds and starts scheduled timers.
+ * Persists the run state, records the history and rings the alarm once the timer is done.
+ *
+ * @export
+ * @class TimerController
+ * @version 1.0.0
+ */
+export default class TimerController {
+    static roundsKept: number = 20; // Number of completed repeat rounds kept in the run state.
+
+    alarm = new AlarmManager(); // Plays the alarm tone once the countdown is done.
+    data: TimerData; // The stored timer data.
+    deadline: number = 0; // Timestamp (in ms) at which the running countdown ends.
+    defaultTime: number = 0; // Saves the initial duration of the timer.
+    elapsed: number = 0; // Stopwatch time (in ms) while it is not running.
+    events: TimerEvents; // Notified about runs, finished timers and messages.
+    history = new HistoryManager(); // Records when the timer runs.
+    interval: number = 0; // Interval instance.
+    listener: ((state: TimerRunState) => void) | null = null; // Notified whenever the run state changes.
+    remaining: number = 0; // Amount of time left (in ms) while the countdown is not running.
+    reportedRun: string = 'null'; // The last run reported, as JSON.
+    schedule?: TimerData['schedule']; // The upcoming scheduled start.
+    scheduleInterval: number = 0; // Interval instance checking the scheduled start.
+    snoozeTime: number = 60; // Amount of time a snooze adds to the timer (in seconds).
+    startTime: number = 0; // Timestamp (in ms) the running stopwatch counts from.
+    storage = new Storage('timer'); // localStorage wrapper to persist the run state.
+    target: number = 0; // Timestamp (in ms) the running countdown to a time of day ends, unlike a snooze.
+    tickRate: number = 250; // How often we check the clock (in ms).
+    waitUntil: number = 0; // Timestamp (in ms) the break before the next repeat round ends.
+
+    // Data keys holding the stored run state.
+    runStateKeys: (keyof TimerData)[] = [
+        'time',
+        'completedRounds',
+        'mode',
+        'phases',
+        'deadline',
+        'elapsed',
+        'finished',
+        'laps',
+        'paused',
+        'phase',
+        'remaining',
+        'startTime',
+        'stopped',
+        'target',
+        'targetTime',
+        'repeat',
+        'rounds',
+        'waitUntil',
+        'schedule'
+    ];
+
+    state: TimerRunState = {
+        completedRounds: 0,
+        finished: false,
+        laps: [],
+        paused: true,
+        phase: 0,
+        rounds: [],
+        stopped: false,
+        time: 0,
+        untilStart: 0
+    };
+
+    /**
+     * Creates an instance of TimerController.
+     * Resumes the timer right away if it is still running.
+     *
+     * @param {TimerData} data The stored timer data
+     * @param {TimerEvents} events Callbacks for the timer's events
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    constructor(data: TimerData, events: TimerEvents) {
+        this.data = data;
+        this.events = events;
+
+        this.restoreState();
+    }
+
+    /**
+     * onChange
+     *
+     * Listen for changes of the run state, e.g. to render the timer.
+     *
+     * @param {((state: TimerRunState) => void) | null} listener Called with the new run state, `null` to stop listening
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    onChange = (listener: ((state: TimerRunState) => void) | null) => {
+        this.listener = listener;
+    };
+
+    /**
+     * setState
+     *
+     * Update the run state and let the listener know.
+     *
+     * @param {Partial<TimerRunState>} state The changed run state
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    setState = (state: Partial<TimerRunState>) => {
+        this.state = { ...this.state, ...state };
+
+        if (this.listener) {
+            this.listener(this.state);
+        }
+
+        this.reportRun();
+    };
+
+    /**
+     * update
+     *
+     * Adopt the stored timer data.
+     * Applies the stored run state whenever it changed, e.g. after an edit or in another tab.
+     *
+     * @param {TimerData} data The stored timer data
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    update = (data: TimerData) => {
+        const previous = this.data;
+
+        this.data = data;
+
+        if (this.runStateKeys.some(key => JSON.stringify(previous[key]) !== JSON.stringify(data[key]))) {
+            this.restoreState(true);
+        }
+    };
+
+    /**
+     * dispose
+     *
+     * Stop the intervals and the alarm once the timer was removed.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    dispose = () => {
+        clearInterval(this.interval);
+        clearInterval(this.scheduleInterval);
+        this.alarm.stop();
+        this.listener = null;
+
+        // The timer no longer runs.
+        if (this.events.onRun) {
+            this.events.onRun(this.data.id, null);
+        }
+    };
+
+    /**
+     * reportRun
+     *
+     * Report whether and until when the timer runs, e.g. to show it in the document title.
+     * Only reports actual changes.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    reportRun = () => {
+        const { id, title } = this.data;
+        let run: TimerRun | null = null;
+
+        if (!this.events.onRun) return;
+
+        if (this.waitUntil) {
+            run = { title: title, deadline: this.waitUntil, duration: this.data.repeat!.delay! * 1000 };
+        } else if (this.deadline) {
+            const duration = (this.isSequence() ? this.getPhaseTime(this.state.phase) : this.defaultTime) * 1000;
+            run = { title: title, deadline: this.deadline, duration: duration };
+        } else if (this.startTime) {
+            run = { title: title, startTime: this.startTime };
+        }
+
+        if (JSON.stringify(run) !== this.reportedRun) {
+            this.reportedRun = JSON.stringify(run);
+            this.events.onRun(id, run);
+        }
+    };
+
+    /**
+     * isRunning
+     *
+     * Check whether the timer is counting right now.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    isRunning = (): boolean => {
+        return !this.state.paused && !this.state.stopped;
+    };
+
+    /**
+     * hasOpenRun
+     *
+     * Check whether the timer was started and neither finished nor stopped since, e.g. a paused countdown.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    hasOpenRun = (): boolean => {
+        const { completedRounds, finished, phase, stopped } = this.state;
+
+        if (finished || stopped) return false;
+
+        return (
+            !!this.deadline ||
+            !!this.startTime ||
+            this.elapsed > 0 ||
+            phase > 0 ||
+            completedRounds > 0 ||
+            this.remaining !== this.defaultTime * 1000
+        );
+    };
+
+    /**
+     * getTimeLeft
+     *
+     * Calculate the amount of seconds left based on the deadline or the remaining time.
+     *
+     * @return {*} {number}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getTimeLeft = (): number => {
+        // While running we measure against the wall clock, otherwise we use the stored remaining time.
+        // Countdowns to a time of day always measure against the clock.
+        // Breaks between repeat rounds count down on their own.
+        const timeLeft = this.deadline
+            ? (this.waitUntil ? this.waitUntil : this.deadline) - Date.now()
+            : this.isTargeted()
+            ? this.getTarget() - Date.now()
+            : this.remaining;
+
+        // Make sure the time can't go below 0.
+        return Math.max(0, Math.ceil(timeLeft / 1000));
+    };
+
+    /**
+     * getElapsed
+     *
+     * Calculate the stopwatch time in ms based on the start time or the stored elapsed time.
+     *
+     * @return {*} {number}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getElapsed = (): number => {
+        return this.startTime ? Date.now() - this.startTime : this.elapsed;
+    };
+
+    /**
+     * getCurrentTime
+     *
+     * Get the amount of seconds to display for the current mode.
+     *
+     * @return {*} {number}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getCurrentTime = (): number => {
+        return this.isStopwatch() ? Math.floor(this.getElapsed() / 1000) : this.getTimeLeft();
+    };
+
+    /**
+     * isStopwatch
+     *
+     * Check whether the timer counts up instead of down.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    isStopwatch = (): boolean => {
+        return this.data.mode === 'stopwatch';
+    };
+
+    /**
+     * isSequence
+     *
+     * Check whether the timer counts down a sequence of phases.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    isSequence = (): boolean => {
+        return this.data.mode === 'sequence' && !!this.data.phases && this.data.phases.length > 0;
+    };
+
+    /**
+     * getPhaseTime
+     *
+     * Get the duration of the given sequence phase in seconds.
+     *
+     * @param {number} index Index of the phase
+     * @return {*} {number}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getPhaseTime = (index: number): number => {
+        const phases = this.data.phases!;
+        return phases[Math.min(index, phases.length - 1)].time;
+    };
+
+    /**
+     * phaseLabel
+     *
+     * Describes which round of the sequence the given phase belongs to.
+     *
+     * @param {number} index Index of the phase
+     * @return {*} {string}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    phaseLabel = (index: number): string => {
+        const phases = this.data.phases!;
+        return `round ${phases[index].round} of ${phases[phases.length - 1].round}`;
+    };
+
+    /**
+     * isTargeted
+     *
+     * Check whether the timer counts down to a time of day instead of for a duration.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    isTargeted = (): boolean => {
+        return !this.isStopwatch() && !this.isSequence() && !!this.data.targetTime;
+    };
+
+    /**
+     * getTarget
+     *
+     * Get the point in time the countdown runs until.
+     * Once the stored target passed, the countdown runs until the next occurrence of its time of day.
+     *
+     * @param {number} [from] Timestamp (in ms) the target has to follow, defaults to now
+     * @return {*} {number} Timestamp (in ms)
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getTarget = (from: number = Date.now()): number => {
+        const { target, targetTime } = this.data;
+
+        return target && target > from ? target : nextOccurrence(targetTime!, [], from);
+    };
+
+    /**
+     * alignTarget
+     *
+     * Keep the running countdown on its time of day, e.g. after the device moved to another time zone.
+     * Daylight saving time changes don't move the target, since it was calculated with the local calendar.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    alignTarget = () => {
+        // Leave snoozes alone.
+        if (!this.deadline || this.deadline !== this.target) return;
+
+        const [hours, minutes] = this.data.targetTime!.split(':').map(part => parseInt(part));
+        const aligned = new Date(this.deadline);
+
+        aligned.setHours(hours, minutes, 0, 0);
+
+        // A time zone change never moves the clock by more than a day, so we pick the closest occurrence.
+        const offset = aligned.getTime() - this.deadline;
+
+        if (offset > 12 * 3600000) {
+            aligned.setDate(aligned.getDate() - 1);
+        } else if (offset < -12 * 3600000) {
+            aligned.setDate(aligned.getDate() + 1);
+        }
+
+        if (aligned.getTime() === this.deadline) return;
+
+        this.deadline = aligned.getTime();
+        this.target = this.deadline;
+
+        // Save and report the moved target.
+        this.saveState({ target: this.deadline });
+        this.reportRun();
+    };
+
+    /**
+     * isRepeating
+     *
+     * Check whether the countdown restarts once it finishes.
+     * Sequences already have rounds and countdowns to a time of day only happen once a day, so neither repeats.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    isRepeating = (): boolean => {
+        return !!this.data.repeat && !this.isStopwatch() && !this.isSequence() && !this.isTargeted();
+    };
+
+    /**
+     * hasNextRound
+     *
+     * Check whether another repeat round follows the current one.
+     *
+     * @return {*} {boolean}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    hasNextRound = (): boolean => {
+        const count = this.data.repeat ? this.data.repeat.count : undefined;
+
+        return this.isRepeating() && (!count || this.state.completedRounds + 1 < count);
+    };
+
+    /**
+     * roundLabel
+     *
+     * Describes the current repeat round, e.g. `Round 2 of 5`.
+     *
+     * @return {*} {string}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    roundLabel = (): string => {
+        const count = this.data.repeat!.count;
+        const round = count ? Math.min(this.state.completedRounds + 1, count) : this.state.completedRounds + 1;
+
+        return `${this.waitUntil ? 'Break before round' : 'Round'} ${round}${count ? ` of ${count}` : ''}`;
+    };
+
+    /**
+     * getProgress
+     *
+     * Calculate how far along the countdown, the current sequence phase or the break between repeat rounds is.
+     *
+     * @return {*} {number} Percentage (0-100) of the time that already ran out
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getProgress = (): number => {
+        const total = this.waitUntil
+            ? this.data.repeat!.delay!
+            : this.isSequence()
+            ? this.getPhaseTime(this.state.phase)
+            : this.defaultTime;
+
+        if (!total) return 0;
+
+        // Snoozing may leave more time than the timer's duration.
+        return Math.min(100, Math.max(0, 100 - (this.state.time / total) * 100));
+    };
+
+    /**
+     * countDown
+     *
+     * Update the displayed time from the deadline, or from the start time in stopwatch mode.
+     * Since we compare against the clock, throttled or delayed ticks can't make the timer drift.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    countDown = () => {
+        const time = this.getCurrentTime();
+
+        // Only update the state when the displayed second actually changes.
+        if (time !== this.state.time) {
+            this.setState({
+                time: time
+            });
+        }
+    };
+
+    /**
+     * saveState
+     *
+     * Persist the current run state so the timer survives page reloads.
+     *
+     * @param {Partial<TimerData>} state The changed run state, anything not supplied is taken from our state
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    saveState = (state: Partial<TimerData>) => {
+        const key = this.data.id.toString();
+        const { completedRounds, finished, laps, paused, phase, rounds, stopped } = this.state;
+
+        // Collect the run state right away, before it changes again.
+        const runState: Partial<TimerData> = {
+            deadline: this.deadline ? this.deadline : undefined,
+            waitUntil: this.waitUntil ? this.waitUntil : undefined,
+            remaining: this.remaining,
+            elapsed: this.elapsed,
+            startTime: this.startTime ? this.startTime : undefined,
+            finished: finished,
+            laps: laps,
+            paused: paused,
+            phase: phase,
+            rounds: rounds.length ? rounds : undefined,
+            completedRounds: completedRounds ? completedRounds : undefined,
+            stopped: stopped,
+            ...state
+        };
+
+        this.storage.get(key).then(data => {
+            // The timer might have been removed in the meantime.
+            if (!data) return;
+
+            this.storage.set(key, { ...(data as TimerData), ...runState });
+        });
+    };
+
+    /**
+     * toggleTimer
+     *
+     * Start the timer if it is paused or stopped, pause it otherwise.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    toggleTimer = () => {
+        if (this.isRunning()) {
+            this.pauseTimer();
+        } else {
+            this.startTimer();
+        }
+    };
+
+    /**
+     * startTimer
+     *
+     * Start the countdown.
+     *
+     * @param {Partial<TimerData>} [state] Additional data to save along with the run state
+     * @param {number} [startedAt] Timestamp (in ms) the timer started at, defaults to now
+     * @param {boolean} [automatic] Whether the timer started by itself in every open tab, e.g. for the next round
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    startTimer = (state: Partial<TimerData> = {}, startedAt: number = Date.now(), automatic: boolean = false) => {
+        let phase = this.state.phase;
+
+        if (this.isStopwatch()) {
+            // Continue counting from the stored elapsed time.
+            this.startTime = startedAt - this.elapsed;
+        } else if (this.isTargeted() && !this.state.finished) {
+            // Count down to the time of day, the duration is whatever is left until then.
+            // Snoozing a finished timer counts down the snooze time instead.
+            this.deadline = this.getTarget(startedAt);
+            this.target = this.deadline;
+            this.defaultTime = Math.ceil((this.deadline - startedAt) / 1000);
+            this.remaining = this.deadline - startedAt;
+            phase = 0;
+
+            state = { ...state, target: this.deadline, time: this.defaultTime };
+        } else {
+            // Start from the full duration if the timer was stopped or has nothing left.
+            if (this.state.stopped || this.remaining <= 0) {
+                this.remaining = this.defaultTime * 1000;
+
+                // Sequences start over from their first phase.
+                phase = 0;
+            }
+
+            // Set the point in time at which the countdown ends.
+            this.deadline = startedAt + this.remaining;
+        }
+
+        // Let the timer know its started.
+        this.setState({
+            finished: false,
+            paused: false,
+            phase: phase,
+            stopped: false
+        });
+
+        // Save the new run state.
+        this.saveState(state);
+
+        // Record the start in the history, automatic starts only once for all open tabs.
+        if (!automatic || AlarmManager.leader) {
+            this.history.log(this.data.id, 'start', this.data.title, startedAt);
+        }
+
+        // Start counting down.
+        this.runCountdown();
+    };
+
+    /**
+     * runCountdown
+     *
+     * Start the interval that keeps the displayed time in sync with the deadline.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    runCountdown = () => {
+        // Make sure we never run more than one interval.
+        clearInterval(this.interval);
+
+        // Check the clock several times a second so the display never lags behind.
+        this.interval = window.setInterval(() => {
+            if (this.isTargeted()) {
+                this.alignTarget();
+            }
+
+            // The break is over, count down the next round.
+            if (this.waitUntil && Date.now() >= this.waitUntil) {
+                this.waitUntil = 0;
+            }
+
+            this.countDown();
+
+            // If we reach 0, the countdown or the current phase is done.
+            if (!this.isStopwatch() && this.getTimeLeft() === 0) {
+                if (this.isSequence() && this.state.phase < this.data.phases!.length - 1) {
+                    this.nextPhase();
+                } else {
+                    this.finishTimer();
+                }
+            }
+        }, this.tickRate);
+    };
+
+    /**
+     * nextPhase
+     *
+     * Advance the sequence to its next phase and announce the transition.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    nextPhase = () => {
+        const phases = this.data.phases!;
+        let phase = this.state.phase;
+
+        // Move on to the next phase, skipping those that already ran out, e.g. while the device was asleep.
+        do {
+            phase++;
+            this.deadline += phases[phase].time * 1000;
+        } while (this.deadline <= Date.now() && phase < phases.length - 1);
+
+        // Update the state.
+        this.setState({
+            phase: phase,
+            time: this.getTimeLeft()
+        });
+
+        // Save the new phase.
+        this.saveState({ phase: phase });
+
+        // The whole sequence might have run out while we were away.
+        if (this.getTimeLeft() === 0) {
+            this.finishTimer();
+            return;
+        }
+
+        // Chime briefly and announce the new phase.
+        if (AlarmManager.leader) {
+            this.alarm.play(3000, this.data.sound);
+        }
+
+        this.showMessage(`${this.getTitle()}: ${phases[phase].name} (${this.phaseLabel(phase)})`);
+    };
+
+    /**
+     * nextRound
+     *
+     * Record the finished repeat round and start the next one, after the break if there is one.
+     * Rounds are measured from the end of the previous one, so rounds missed while the device was asleep catch up.
+     * Only the latest rounds are kept and recorded, the last round of a counted repeat is left for `finishTimer`.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    nextRound = () => {
+        const { id, repeat, sound, title } = this.data;
+        const delay = repeat!.delay ? repeat!.delay * 1000 : 0;
+        const limit = repeat!.count ? repeat!.count - 1 - this.state.completedRounds : Infinity;
+        const { count, ends } = endedRounds(
+            this.deadline,
+            this.defaultTime * 1000 + delay,
+            limit,
+            TimerController.roundsKept
+        );
+        const start = ends[ends.length - 1] + delay;
+        const completedRounds = this.state.completedRounds + count;
+
+        // Record the finished rounds and the rounds in between in the history, only once for all open tabs.
+        if (AlarmManager.leader) {
+            ends.forEach((end, index) => {
+                this.history.log(id, 'finish', title, end);
+
+                if (index < ends.length - 1) {
+                    this.history.log(id, 'start', title, end + delay);
+                }
+            });
+        }
+
+        // Restart from the full duration once the break is over.
+        this.remaining = 0;
+        this.waitUntil = start > Date.now() ? start : 0;
+
+        this.setState({
+            completedRounds: completedRounds,
+            rounds: [...this.state.rounds, ...ends].slice(-TimerController.roundsKept)
+        });
+
+        this.startTimer({ waitUntil: this.waitUntil ? this.waitUntil : undefined }, start, true);
+
+        // Chime briefly and announce the finished round.
+        if (AlarmManager.leader) {
+            this.alarm.play(3000, sound);
+        }
+
+        this.showMessage(`${this.getTitle()}: round ${completedRounds} done`);
+    };
+
+    /**
+     * restoreState
+     *
+     * Apply the stored run state from the timer data.
+     * Resumes the timer if it is still running.
+     *
+     * @param {boolean} [announce] Whether to announce a timer that finished elsewhere
+     * @return {*} {boolean} Whether the timer is running
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    restoreState = (announce: boolean = false): boolean => {
+        const {
+            completedRounds,
+            deadline,
+            elapsed,
+            finished,
+            laps,
+            paused,
+            phase,
+            remaining,
+            rounds,
+            startTime,
+            stopped,
+            waitUntil
+        } = this.data;
+        const running = !!(this.isStopwatch() ? startTime : deadline) && !paused && !stopped;
+
+        // Stop counting until we know the new state.
+        clearInterval(this.interval);
+
+        // Record the rounds and the finish another tab got to first, before we forget when the countdown ended.
+        if (announce && AlarmManager.leader) {
+            this.recordFinished(this.deadline);
+        }
+
+        // The alarm may have been dismissed elsewhere.
+        if (!finished) {
+            this.alarm.stop();
+        }
+
+        // Pick up the stored durations and times.
+        this.defaultTime = this.isSequence() ? this.getPhaseTime(0) : this.data.time;
+        this.remaining = remaining !== undefined ? remaining : this.defaultTime * 1000;
+        this.elapsed = elapsed !== undefined ? elapsed : 0;
+        this.deadline = running && !this.isStopwatch() ? deadline! : 0;
+        this.startTime = running && this.isStopwatch() ? startTime! : 0;
+        this.target = this.data.target ? this.data.target : 0;
+        this.waitUntil = running && waitUntil && waitUntil > Date.now() ? waitUntil : 0;
+
+        // Announce timers that finished elsewhere, e.g. in another tab.
+        if (announce && finished && !this.state.finished) {
+            this.announceFinish();
+        }
+
+        this.setState({
+            completedRounds: completedRounds !== undefined ? completedRounds : rounds ? rounds.length : 0,
+            finished: finished !== undefined ? finished : false,
+            laps: laps ? laps : [],
+            paused: paused !== undefined ? paused : true,
+            phase: phase && this.isSequence() ? Math.min(phase, this.data.phases!.length - 1) : 0,
+            rounds: rounds ? rounds : [],
+            stopped: stopped !== undefined ? stopped : false,
+            time: this.getCurrentTime()
+        });
+
+        // Resume the countdown.
+        if (running) {
+            this.runCountdown();
+        }
+
+        // Wait for the scheduled start.
+        this.schedule = this.data.schedule;
+        this.watchSchedule();
+
+        return running;
+    };
+
+    /**
+     * recordFinished
+     *
+     * Record the rounds and the finish stored by another tab, since only the leader records them in the history.
+     * Rounds and finishes this tab already knows about were recorded by itself.
+     *
+     * @param {number} end Timestamp (in ms) the countdown was known to end at
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    recordFinished = (end: number) => {
+        const { finished, id, repeat, title } = this.data;
+        const known = this.state.rounds.length ? this.state.rounds[this.state.rounds.length - 1] : 0;
+        const rounds = (this.data.rounds ? this.data.rounds : []).filter(round => round > known);
+        const delay = repeat && repeat.delay ? repeat.delay * 1000 : 0;
+
+        // Each round but the last one was followed by the next round.
+        rounds.forEach((round, index) => {
+            this.history.log(id, 'finish', title, round);
+
+            if (!finished || index < rounds.length - 1) {
+                this.history.log(id, 'start', title, round + delay);
+            }
+        });
+
+        // The last round already recorded the finish.
+        if (finished && !this.state.finished && !rounds.length) {
+            this.history.log(id, 'finish', title, end ? Math.min(end, Date.now()) : Date.now());
+        }
+    };
+
+    /**
+     * watchSchedule
+     *
+     * Check the clock every second until the scheduled start is due.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    watchSchedule = () => {
+        // Make sure we never run more than one interval.
+        clearInterval(this.scheduleInterval);
+
+        if (!this.schedule) {
+            this.setState({
+                untilStart: 0
+            });
+            return;
+        }
+
+        this.checkSchedule();
+        this.scheduleInterval = window.setInterval(this.checkSchedule, 1000);
+    };
+
+    /**
+     * checkSchedule
+     *
+     * Update the time until the scheduled start and start the timer once it is due.
+     * Only the tab holding the alarm leadership starts the timer, the other tabs pick up the stored run state.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    checkSchedule = () => {
+        if (!this.schedule) return;
+
+        const untilStart = Math.max(0, Math.ceil((this.schedule.at - Date.now()) / 1000));
+
+        // Only update the state when the displayed second actually changes.
+        if (untilStart !== this.state.untilStart) {
+            this.setState({
+                untilStart: untilStart
+            });
+        }
+
+        if (untilStart === 0 && AlarmManager.leader) {
+            this.startScheduled();
+        }
+    };
+
+    /**
+     * startScheduled
+     *
+     * Start the timer as of its scheduled start, which might have passed while the app was closed.
+     * Recurring schedules move on to their next start, one-off schedules are removed.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    startScheduled = () => {
+        const { at, days, time } = this.schedule!;
+        const recurring = !!time && !!days && days.length > 0;
+        const schedule = recurring ? { at: nextOccurrence(time!, days!), time: time, days: days } : undefined;
+
+        this.schedule = schedule;
+
+        if (this.deadline || this.startTime) {
+            // Leave a running timer alone and only save the next start.
+            this.saveState({ schedule: schedule });
+        } else {
+            // Silence the alarm of a finished timer.
+            this.alarm.stop();
+
+            this.startTimer({ schedule: schedule }, at);
+
+            this.showMessage(`${this.getTitle()} started as scheduled`);
+        }
+
+        this.watchSchedule();
+    };
+
+    /**
+     * cancelSchedule
+     *
+     * Remove the scheduled start.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    cancelSchedule = () => {
+        this.schedule = undefined;
+
+        // Save the removed schedule.
+        this.saveState({ schedule: undefined });
+
+        this.watchSchedule();
+    };
+
+    /**
+     * finishTimer
+     *
+     * Ring the alarm and keep the timer in its finished state until the user reacts.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    finishTimer = () => {
+        // Repeating countdowns move on to their next round instead.
+        if (this.hasNextRound()) {
+            this.nextRound();
+            return;
+        }
+
+        // Record the last repeat round, snoozing afterwards adds no more rounds.
+        const lastRound = this.isRepeating() && this.state.completedRounds < this.data.repeat!.count!;
+        const rounds = lastRound
+            ? [...this.state.rounds, this.deadline].slice(-TimerController.roundsKept)
+            : this.state.rounds;
+
+        // Clear the interval so we don't trigger the alarm repeatedly.
+        clearInterval(this.interval);
+
+        // Nothing is left of the countdown.
+        this.deadline = 0;
+        this.remaining = 0;
+
+        // Let the timer know it's done.
+        this.setState({
+            completedRounds: lastRound ? this.state.completedRounds + 1 : this.state.completedRounds,
+            finished: true,
+            paused: true,
+            rounds: rounds,
+            time: 0
+        });
+
+        // Save the new run state.
+        this.saveState({});
+
+        // Record the finish in the history, only once for all open tabs.
+        if (AlarmManager.leader) {
+            this.history.log(this.data.id, 'finish', this.data.title);
+        }
+
+        this.announceFinish();
+    };
+
+    /**
+     * announceFinish
+     *
+     * Ring the alarm and let the user know the timer is done.
+     * Only the tab holding the alarm leadership plays a sound.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    announceFinish = () => {
+        // Ring the alarm.
+        if (AlarmManager.leader) {
+            this.alarm.play(undefined, this.data.sound);
+        }
+
+        // Let the user know which timer is done.
+        this.showMessage(`${this.getTitle()} is done`);
+
+        // Report the finish, e.g. to show a desktop notification.
+        if (this.events.onFinish) {
+            this.events.onFinish(this.data.id, this.data.title);
+        }
+    };
+
+    /**
+     * snoozeTimer
+     *
+     * Silence the alarm and count down again for a short amount of time.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    snoozeTimer = () => {
+        // Silence the alarm.
+        this.alarm.stop();
+
+        // Only count down the snooze time.
+        this.remaining = this.snoozeTime * 1000;
+
+        this.startTimer();
+    };
+
+    /**
+     * pauseTimer
+     *
+     * Temporarily pause the countdown.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    pauseTimer = () => {
+        if (this.isStopwatch()) {
+            // Save the elapsed time and drop the start time.
+            this.elapsed = this.getElapsed();
+            this.startTime = 0;
+        } else {
+            // Save the time left and drop the deadline, pausing during a break skips the rest of it.
+            this.remaining = this.waitUntil ? this.defaultTime * 1000 : Math.max(0, this.deadline - Date.now());
+            this.deadline = 0;
+            this.waitUntil = 0;
+        }
+
+        // Pause the timer by changing the state.
+        this.setState({
+            paused: true
+        });
+
+        // Save the new run state.
+        this.saveState({});
+
+        // Record the pause in the history.
+        this.history.log(this.data.id, 'pause', this.data.title);
+
+        // Clear the interval so it stops counting down.
+        clearInterval(this.interval);
+    };
+
+    /**
+     * stopTimer
+     *
+     * Pause the countdown and reset it to its original value.
+     * Also dismisses the alarm of a finished timer, resets the stopwatch and its laps and starts the repeat rounds over.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    stopTimer = () => {
+        // Silence the alarm.
+        this.alarm.stop();
+
+        // Record the cancelled run in the history.
+        this.cancelRun();
+
+        // Drop the deadline and break and restore the full duration.
+        this.deadline = 0;
+        this.remaining = this.defaultTime * 1000;
+        this.waitUntil = 0;
+
+        // Reset the stopwatch.
+        this.elapsed = 0;
+        this.startTime = 0;
+
+        // Clear the interval so it stops counting down.
+        clearInterval(this.interval);
+
+        // Pause the timer and restore the original time.
+        this.setState({
+            completedRounds: 0,
+            finished: false,
+            laps: [],
+            phase: 0,
+            rounds: [],
+            stopped: true,
+            time: this.getCurrentTime()
+        });
+
+        // Save the new run state.
+        this.saveState({});
+    };
+
+    /**
+     * cancelRun
+     *
+     * Record the open run as cancelled in the history, e.g. once the timer is stopped or removed.
+     * Timers that never started have nothing to cancel.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    cancelRun = () => {
+        if (this.hasOpenRun()) {
+            this.history.log(this.data.id, 'cancel', this.data.title);
+        }
+    };
+
+    /**
+     * recordLap
+     *
+     * Record the current stopwatch time as a lap.
+     *
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    recordLap = () => {
+        const laps = [...this.state.laps, this.getElapsed()];
+
+        // Update the state.
+        this.setState({
+            laps: laps
+        });
+
+        // Save the new laps.
+        this.saveState({});
+    };
+
+    /**
+     * getTitle
+     *
+     * Get the title of the timer for messages.
+     *
+     * @return {*} {string}
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    getTitle = (): string => {
+        return this.data.title ? this.data.title : 'Untitled';
+    };
+
+    /**
+     * showMessage
+     *
+     * Pass the given message on, e.g. to show it in the Snackbar.
+     *
+     * @param {string} message The message to display
+     * @memberof TimerController
+     * @since 1.0.0
+     */
+    showMessage = (message: string) => {
+        if (this.events.onMessage) {
+            this.events.onMessage(message);
+        }
+    };
+}
@@ -0,0 +1,210 @@
+import TimerController, { TimerEvents } from './timer.controller';
+import { TimerData, TimerRun } from './types';
+
+// Callbacks the manager reports the events of all timers to.
+export interface TimerListeners extends TimerEvents {
+    onChange?: (running: number[]) => void;
+}
+
+/**
+ * TimerManager
+ *
+ * Shared controller for the run state of all timers.
+ * Keeps a `TimerController` for every stored timer, so any number of them can be started, paused or stopped at once.
+ * Keeps track of the running timers and lets a listener know whenever that changes.
+ *
+ * @export
+ * @class TimerManager
+ * @version 1.0.0
+ */
+export default class TimerManager {
+    controllers: Map<number, TimerController> = new Map(); // Controllers by timer id.
+    listeners: TimerListeners = {}; // Notified about runs, finished timers and messages.
+    running: Set<number> = new Set(); // Ids of the running timers.
+
+    /**
+     * listen
+     *
+     * Set the callbacks for the events of all timers.
+     * Needs to be called before the first `sync()`.
+     *
+     * @param {TimerListeners} listeners Callbacks for the timers' events
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    listen = (listeners: TimerListeners) => {
+        this.listeners = listeners;
+    };
+
+    /**
+     * sync
+     *
+     * Bring the controllers in line with the stored timers.
+     * New timers get a controller, changed timers adopt their stored data and removed timers are let go.
+     *
+     * @param {TimerData[]} timers The stored timers
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    sync = (timers: TimerData[]) => {
+        const ids = timers.map(data => data.id);
+
+        // Let go of the removed timers.
+        this.controllers.forEach((controller, id) => {
+            if (!ids.includes(id)) {
+                controller.dispose();
+                this.controllers.delete(id);
+            }
+        });
+
+        for (const data of timers) {
+            const controller = this.controllers.get(data.id);
+
+            if (controller) {
+                controller.update(data);
+            } else {
+                this.controllers.set(data.id, new TimerController(data, { ...this.listeners, onRun: this.setRun }));
+            }
+        }
+    };
+
+    /**
+     * get
+     *
+     * Get the controller of the timer with the given id.
+     *
+     * @param {number} id The id of the timer
+     * @return {*} {(TimerController | undefined)}
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    get = (id: number): TimerController | undefined => {
+        return this.controllers.get(id);
+    };
+
+    /**
+     * setRun
+     *
+     * Update whether the timer with the given id is running and pass the run on.
+     *
+     * @param {number} id The id of the timer
+     * @param {TimerRun | null} run The running timer, `null` once it stopped running
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    setRun = (id: number, run: TimerRun | null) => {
+        if (this.listeners.onRun) {
+            this.listeners.onRun(id, run);
+        }
+
+        // Only report actual changes.
+        if (!!run === this.running.has(id)) return;
+
+        if (run) {
+            this.running.add(id);
+        } else {
+            this.running.delete(id);
+        }
+
+        if (this.listeners.onChange) {
+            this.listeners.onChange(Array.from(this.running));
+        }
+    };
+
+    /**
+     * getControllers
+     *
+     * Get the controllers of the timers with the given ids.
+     *
+     * @param {number[]} [ids] Ids of the timers, defaults to all timers
+     * @return {*} {TimerController[]}
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    getControllers = (ids?: number[]): TimerController[] => {
+        const controllers: TimerController[] = [];
+
+        for (const id of ids ? ids : Array.from(this.controllers.keys())) {
+            const controller = this.controllers.get(id);
+
+            if (controller) {
+                controllers.push(controller);
+            }
+        }
+
+        return controllers;
+    };
+
+    /**
+     * cancel
+     *
+     * Record the open runs of the given timers as cancelled, e.g. before removing the timers.
+     *
+     * @param {number[]} ids Ids of the timers
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    cancel = (ids: number[]) => {
+        this.getControllers(ids).forEach(controller => controller.cancelRun());
+    };
+
+    /**
+     * start
+     *
+     * Start the given timers that are not running yet.
+     * Finished timers are left alone until their alarm is dealt with.
+     *
+     * @param {number[]} [ids] Ids of the timers, defaults to all timers
+     * @return {*} {number} The number of started timers
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    start = (ids?: number[]): number => {
+        const controllers = this.getControllers(ids).filter(
+            controller => !controller.isRunning() && !controller.state.finished
+        );
+
+        controllers.forEach(controller => controller.startTimer());
+
+        return controllers.length;
+    };
+
+    /**
+     * pause
+     *
+     * Pause the given timers that are running.
+     *
+     * @param {number[]} [ids] Ids of the timers, defaults to all timers
+     * @return {*} {number} The number of paused timers
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    pause = (ids?: number[]): number => {
+        const controllers = this.getControllers(ids).filter(controller => controller.isRunning());
+
+        controllers.forEach(controller => controller.pauseTimer());
+
+        return controllers.length;
+    };
+
+    /**
+     * stop
+     *
+     * Stop the given timers that were started, which also dismisses the alarm of finished timers.
+     * Timers that never ran or were stopped already are left alone.
+     *
+     * @param {number[]} [ids] Ids of the timers, defaults to all timers
+     * @return {*} {number} The number of stopped timers
+     * @memberof TimerManager
+     * @since 1.0.0
+     */
+    stop = (ids?: number[]): number => {
+        const controllers = this.getControllers(ids).filter(
+            controller => controller.hasOpenRun() || controller.state.finished
+        );
+
+        controllers.forEach(controller => controller.stopTimer());
+
+        return controllers.length;
+    };
+}
@@ -0,0 +1,212 @@
+import PreferencesManager from './preferences.manager';
+import { TimerRun } from './types';
+
+/**
+ * TitleManager
+ *
+ * Shows the most urgent running timer in the document title and, if enabled, as a progress pie in the favicon.
+ * The countdown finishing soonest wins, running stopwatches are only shown while no countdown is running.
+ * Restores the original title and favicon once no timer is running.
+ *
+ * @export
+ * @class TitleManager
+ * @version 1.0.0
+ */
+export default class TitleManager {
+    defaultIcon: string | null = null; // Saves the original favicon.
+    defaultTitle: string; // Saves the original document title.
+    icon: HTMLLinkElement | null; // Favicon link element.
+    iconSize: number = 32; // Size of the generated favicon (in px).
+    iconState: string = ''; // Progress and color of the current favicon, so we only redraw on changes.
+    interval: number = 0; // Interval instance.
+    preferences = new PreferencesManager(); // Holds whether the favicon shows the progress.
+    runs: Map<number, TimerRun> = new Map(); // Running timers by id.
+
+    constructor() {
+        // Save the original title and favicon so we can restore them later.
+        this.defaultTitle = document.title;
+        this.icon = document.querySelector('link[rel="icon"]');
+
+        if (this.icon) {
+            this.defaultIcon = this.icon.href;
+        }
+    }
+
+    /**
+     * setRun
+     *
+     * Update the run of the given timer.
+     *
+     * @param {number} id The id of the timer
+     * @param {TimerRun | null} run The running timer, `null` once it stopped running
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    setRun = (id: number, run: TimerRun | null) => {
+        if (run) {
+            this.runs.set(id, run);
+        } else {
+            this.runs.delete(id);
+        }
+
+        // Only keep ticking while timers are running.
+        clearInterval(this.interval);
+
+        if (this.runs.size) {
+            this.interval = window.setInterval(this.update, 1000);
+        }
+
+        this.update();
+    };
+
+    /**
+     * getUrgent
+     *
+     * Find the most urgent running timer.
+     *
+     * @return {*} {([number, TimerRun] | null)} The id and run of the timer, `null` if none is running
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    getUrgent = (): [number, TimerRun] | null => {
+        let urgent: [number, TimerRun] | null = null;
+
+        for (const [id, run] of Array.from(this.runs)) {
+            const current = urgent ? urgent[1] : null;
+
+            // Countdowns beat stopwatches, the earlier deadline beats the later one.
+            if (!current || (run.deadline && (!current.deadline || run.deadline < current.deadline))) {
+                urgent = [id, run];
+            }
+        }
+
+        return urgent;
+    };
+
+    /**
+     * formatTime
+     *
+     * Format the given amount of seconds as `HH:MM:SS`.
+     *
+     * @param {number} time Time in seconds
+     * @return {*} {string}
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    formatTime = (time: number): string => {
+        return [Math.floor(time / 3600), Math.floor((time % 3600) / 60), time % 60]
+            .map(value => value.toString().padStart(2, '0'))
+            .join(':');
+    };
+
+    /**
+     * update
+     *
+     * Show the most urgent timer in the document title and favicon.
+     *
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    update = () => {
+        const urgent = this.getUrgent();
+
+        // Restore the original title and favicon once no timer is running.
+        if (!urgent) {
+            document.title = this.defaultTitle;
+            this.restoreIcon();
+            return;
+        }
+
+        const [id, run] = urgent;
+        const time = run.deadline
+            ? Math.max(0, Math.ceil((run.deadline - Date.now()) / 1000))
+            : Math.floor((Date.now() - run.startTime!) / 1000);
+
+        document.title = `${run.title ? run.title : 'Timer'} – ${this.formatTime(time)}`;
+
+        // Stopwatches have no end, so only countdowns show their progress.
+        if (run.deadline && run.duration && this.preferences.get('favicon') !== 'off') {
+            this.drawIcon(Math.min(1, Math.max(0, 1 - (time * 1000) / run.duration)), this.getColor(id));
+        } else {
+            this.restoreIcon();
+        }
+    };
+
+    /**
+     * getColor
+     *
+     * Get the brand color of the given timer, which includes its own accent.
+     *
+     * @param {number} id The id of the timer
+     * @return {*} {string}
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    getColor = (id: number): string => {
+        const element = document.getElementById(`timer-${id}`);
+        const color = getComputedStyle(element ? element : document.body)
+            .getPropertyValue('--brand')
+            .trim();
+
+        return color ? color : '#26a69a';
+    };
+
+    /**
+     * drawIcon
+     *
+     * Draw a pie showing the given progress and use it as the favicon.
+     *
+     * @param {number} progress How far along the timer is (0-1)
+     * @param {string} color Color of the pie
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    drawIcon = (progress: number, color: string) => {
+        const state = `${Math.round(progress * 100)}-${color}`;
+
+        // Don't redraw the same favicon.
+        if (!this.icon || state === this.iconState) return;
+
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        const center = this.iconSize / 2;
+
+        if (!context) return;
+
+        canvas.height = this.iconSize;
+        canvas.width = this.iconSize;
+        context.fillStyle = color;
+
+        // Draw the faded background circle.
+        context.globalAlpha = 0.3;
+        context.beginPath();
+        context.arc(center, center, center, 0, 2 * Math.PI);
+        context.fill();
+
+        // Draw the progress pie, starting at the top.
+        context.globalAlpha = 1;
+        context.beginPath();
+        context.moveTo(center, center);
+        context.arc(center, center, center, -Math.PI / 2, -Math.PI / 2 + 2 * Math.PI * progress);
+        context.closePath();
+        context.fill();
+
+        this.icon.href = canvas.toDataURL('image/png');
+        this.iconState = state;
+    };
+
+    /**
+     * restoreIcon
+     *
+     * Restore the original favicon.
+     *
+     * @memberof TitleManager
+     * @since 1.0.0
+     */
+    restoreIcon = () => {
+        if (!this.icon || !this.defaultIcon || !this.iconState) return;
+
+        this.icon.href = this.defaultIcon;
+        this.iconState = '';
+    };
+}
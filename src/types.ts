@@ -1,5 +1,116 @@
+export type TimerMode = 'countdown' | 'sequence' | 'stopwatch';
+
+export interface TimerPhase {
+    name: string;
+    round: number; // The round (starting at 1) this phase belongs to.
+    time: number; // Duration in seconds.
+}
+
+export type AlarmSound = 'beep' | 'chime' | 'bell' | 'digital' | 'silent';
+
+export type HistoryEventType = 'start' | 'pause' | 'finish' | 'cancel';
+
+export interface TimerGroup {
+    id: number;
+    name: string;
+    collapsed?: boolean; // Whether the group's timers are hidden on the Landing slide.
+}
+
+export interface TimerSchedule {
+    at: number; // Timestamp (in ms) of the next scheduled start.
+    time?: string; // Time of day (`HH:MM`) a recurring schedule starts at.
+    days?: number[]; // Weekdays (0 is Sunday) a recurring schedule starts on.
+}
+
+export interface TimerRepeat {
+    count?: number; // Rounds in total, repeats forever if missing.
+    delay?: number; // Break (in seconds) between rounds.
+}
+
+export interface TimerPreset {
+    id: number;
+    title: string;
+    time: number; // Duration in seconds.
+    mode?: TimerMode;
+    phases?: TimerPhase[];
+    targetTime?: string; // Time of day (`HH:MM`) the countdown runs until.
+    repeat?: TimerRepeat;
+    accent?: string;
+    icon?: string;
+    sound?: AlarmSound;
+    builtIn?: boolean; // Built-in presets are not stored and can't be removed.
+}
+
+export interface TimerRun {
+    title?: string;
+    deadline?: number; // Timestamp (in ms) at which the running countdown or sequence phase ends.
+    duration?: number; // Length (in ms) of the running countdown or sequence phase.
+    startTime?: number; // Timestamp (in ms) the running stopwatch counts from.
+}
+
+export interface TimerRunState {
+    completedRounds: number; // Number of completed repeat rounds, `rounds` only holds the latest ones.
+    finished: boolean;
+    laps: number[]; // Stopwatch lap times (in ms since the start).
+    paused: boolean;
+    phase: number; // Index of the current sequence phase.
+    rounds: number[]; // Timestamps (in ms) the latest completed repeat rounds finished at.
+    stopped: boolean;
+    time: number; // Displayed time (in seconds).
+    untilStart: number; // Time (in seconds) until the scheduled start.
+}
+
+export interface HistoryEvent {
+    id: number; // Id of the timer the event belongs to.
+    type: HistoryEventType;
+    time: number; // Timestamp (in ms) of the event.
+    title?: string; // Title of the timer at the time of the event.
+}
+
+export interface TimerStats {
+    id: number;
+    title?: string;
+    runs: number; // Runs that were either finished or cancelled.
+    finished: number;
+    time: number; // Total running time (in ms).
+}
+
+export interface Backup {
+    app: string;
+    version: number;
+    exported: string; // ISO date of the export.
+    preferences: Record<string, string>;
+    timers: TimerData[];
+    groups?: TimerGroup[]; // Missing in backups created before groups existed.
+    templates?: TimerPreset[]; // The user's templates, missing in backups created before templates existed.
+}
+
 export interface TimerData {
     id: number;
     time: number;
     title?: string;
+    mode?: TimerMode; // Defaults to `countdown`.
+    deadline?: number; // Timestamp (in ms) at which the running countdown ends.
+    finished?: boolean; // The countdown ran out and the alarm has not been dismissed yet.
+    paused?: boolean;
+    remaining?: number; // Time left (in ms) while the countdown is not running.
+    stopped?: boolean;
+    elapsed?: number; // Stopwatch time (in ms) while it is not running.
+    laps?: number[]; // Stopwatch lap times (in ms since the start).
+    startTime?: number; // Timestamp (in ms) the running stopwatch counts from.
+    phase?: number; // Index of the current sequence phase.
+    phases?: TimerPhase[]; // Ordered list of sequence phases.
+    target?: number; // Timestamp (in ms) the countdown runs until, for countdowns to a time of day.
+    targetTime?: string; // Time of day (`HH:MM`) the countdown runs until.
+    repeat?: TimerRepeat; // Restarts the countdown once it finishes.
+    rounds?: number[]; // Timestamps (in ms) the latest completed repeat rounds finished at.
+    completedRounds?: number; // Number of completed repeat rounds, counted from `rounds` if missing.
+    waitUntil?: number; // Timestamp (in ms) the break before the next repeat round ends.
+    version?: number; // Schema version of the stored record.
+    order?: number; // Position on the Landing slide, lower comes first.
+    group?: number; // Id of the group the timer belongs to.
+    accent?: string; // One of the preference accents, defaults to the app accent.
+    icon?: string; // Id of an icon in the icon sprite.
+    sound?: AlarmSound; // Defaults to `beep`.
+    schedule?: TimerSchedule; // Starts the timer automatically.
 }